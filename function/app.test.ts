@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { GameManager } from "./app";
+import { CONFIG } from "./config";
+import { ManualClock } from "./simulation/clock";
+
+const SOL_MS = CONFIG.game.minutesPerSol * 60_000;
+
+/**
+ * Moves the clock in one-second frames and ticks the game after each, like the browser's game loop
+ */
+function play(gameManager: GameManager, clock: ManualClock, ms: number): void {
+    for (let elapsed = 0; elapsed < ms; elapsed += 1000) {
+        clock.advance(1000);
+        gameManager.tick();
+    }
+}
+
+describe("game loop", () => {
+    let clock: ManualClock;
+    let gameManager: GameManager;
+    let logSpy: ReturnType<typeof spyOn>;
+
+    beforeEach(() => {
+        logSpy = spyOn(console, "log").mockImplementation(() => {});
+        clock = new ManualClock(0);
+        gameManager = new GameManager(undefined, clock);
+    });
+
+    afterEach(() => {
+        logSpy.mockRestore();
+    });
+
+    test("a sol of real time passes one sol and reports its production", () => {
+        const startSol = gameManager.session.currentSol;
+        const solsPassed: { sol: number; produced: number }[] = [];
+        gameManager.events.on("solPassed", ({ sol, production }) => {
+            solsPassed.push({ sol, produced: production.reduce((total, entry) => total + entry.quantity, 0) });
+        });
+
+        play(gameManager, clock, SOL_MS + 1000);
+
+        expect(gameManager.session.currentSol).toBe(startSol + 1);
+        expect(solsPassed.map(entry => entry.sol)).toEqual([startSol + 1]);
+        expect(solsPassed[0]!.produced).toBeGreaterThan(0);
+    });
+
+    test("the game speed scales the sols passed", () => {
+        const startSol = gameManager.session.currentSol;
+        gameManager.setSpeed(5);
+
+        play(gameManager, clock, 2 * SOL_MS + 1000);
+
+        expect(gameManager.session.currentSol).toBe(startSol + 10);
+    });
+
+    test("a paused game does not advance", () => {
+        const startSol = gameManager.session.currentSol;
+        let solEvents = 0;
+        gameManager.events.on("solPassed", () => solEvents++);
+        gameManager.setSpeed(0);
+
+        play(gameManager, clock, 3 * SOL_MS);
+
+        expect(gameManager.session.currentSol).toBe(startSol);
+        expect(gameManager.session.currentSolProgress).toBe(0);
+        expect(solEvents).toBe(0);
+    });
+
+    test("offline progress replays the elapsed sols and sums up their production", () => {
+        const startSol = gameManager.session.currentSol;
+        let catchingUpDuringSols = true;
+        gameManager.events.on("solPassed", () => {
+            catchingUpDuringSols &&= gameManager.catchingUp;
+        });
+
+        const report = gameManager.simulateOfflineProgress(10 * SOL_MS + 1000);
+
+        expect(gameManager.session.currentSol).toBe(startSol + 10);
+        expect(report.solsSimulated).toBeCloseTo(10 + 1000 / SOL_MS);
+        expect(report.producedGoods.get(1)).toBeGreaterThan(0);
+        expect(catchingUpDuringSols).toBe(true);
+        expect(gameManager.catchingUp).toBe(false);
+    });
+});
@@ -1,35 +1,64 @@
 import { GameSession } from "./models/sessionModel";
-import { Company, Colony, ProductionModule } from "./models/company";
-import { Rocket, SpaceConnections, SellRouteState, findSpaceConnection } from "./models/storage";
-import { SpaceLocation, LocationType } from "./models/location";
-import { Good, Category, ItemPosition } from "./models/good";
+import { Company, Colony, ProductionModule, OverflowPolicy, type Module } from "./models/company";
+import { Rocket, findSpaceConnection } from "./models/storage";
+import { RouteProgram, RouteAction, type RouteRule, type RouteStop } from "./models/route";
+import { planTravel, TravelPreference, type TravelPlan, type TravelPlanOptions } from "./models/travelPlanner";
+import { SpaceLocation, LocationType, getDaylightShareForLocation } from "./models/location";
+import { Good, Category, ItemPosition, StorageClass } from "./models/good";
 import { GoodsRegistry } from "./models/goodsRegistry";
 import { CONFIG } from "./config";
-import * as GUI from './gui';
-import { hudController } from './hudController';
-
-
-
+import { type Clock, systemClock } from "./simulation/clock";
+import { GameEventBus } from "./simulation/events";
+import { RandomEventRegistry, RandomEventTarget, type RandomEventDefinition } from "./models/randomEvents";
+
+/**
+ * Summary of everything that happened while the game was closed.
+ */
+export type OfflineReport = {
+    elapsedMs: number;
+    solsSimulated: number;
+    moneyBefore: number;
+    moneyAfter: number;
+    producedGoods: Map<number, number>;
+    arrivals: { rocketName: string; locationName: string }[];
+    coloniesFounded: string[];
+    randomEvents: string[];
+};
+
+/**
+ * Cost of exploring a location. fuelUnits is the fuel the origin has to hold for the first leg.
+ */
+export type ExplorationQuote = {
+    priceCredits: number;
+    fuelUnits: number;
+    unlockMinutes: number;
+    plan: TravelPlan;
+};
+
+/**
+ * Headless simulation core: owns the game rules and never touches the DOM.
+ * Time comes from an injectable clock and everything noteworthy is published on `events`.
+ */
 export class GameManager {
     session: GameSession;
+    readonly clock: Clock;
+    readonly events: GameEventBus = new GameEventBus();
     lastTickTime: number;
-    lastRocketUpdateTime: number;
     saveInterval: number = CONFIG.game.autoSaveIntervalMs;
     lastSaveTime: number;
+    catchingUp: boolean = false; // True while simulateOfflineProgress replays elapsed time
+    private fuelWaits: Map<string, string> = new Map(); // Why rockets wait for fuel, by rocket id, reported once per reason
 
-    constructor(initialSession?: GameSession) {
-        this.lastTickTime = Date.now();
-        this.lastRocketUpdateTime = Date.now();
-        this.lastSaveTime = Date.now();
+    constructor(initialSession?: GameSession, clock: Clock = systemClock) {
+        this.clock = clock;
+        this.lastTickTime = clock.now();
+        this.lastSaveTime = clock.now();
         this.session = initialSession ?? this.createNewSession("Mars Inc.");
-
-        // Expose gameManager on window for UI access
-        (window as any).gameManager = this;
     }
 
     createNewSession(playerName: string): GameSession {
         const company = new Company("comp-1", `${playerName}`);
-        const session = new GameSession("sess-1", playerName, company);
+        const session = new GameSession("sess-1", playerName, company, this.clock.now());
         
         // Initial setup
         const earth = new SpaceLocation(LocationType.EARTH, "Earth HQ", "loc-earth");
@@ -57,75 +86,299 @@ export class GameManager {
         this.session = session;
     }
 
-    tickCounter: number = 0;
-    lastSolPassed: number = 0;
+    // Simulated milliseconds that have not been consumed by a fixed step yet
+    private stepAccumulatorMs: number = 0;
 
+    /**
+     * Advances the simulation by the real time that passed since the last tick,
+     * scaled by the session's game speed and consumed in fixed steps so the
+     * outcome does not depend on the frame rate.
+     */
     tick(): boolean {
-        const now = Date.now();
-        const deltaTimeInSeconds = (now - this.lastTickTime) / 1000;
-        const deltaTimeInMinutes = deltaTimeInSeconds / 60;
+        const now = this.clock.now();
+        const realDeltaMs = Math.max(0, now - this.lastTickTime);
         this.lastTickTime = now;
-        this.tickCounter++;
-
-        let stateChanged = false;
-        
-        // Update rockets every 30 ticks
-        if(this.tickCounter % 30 === 0) {
-            const rocketDeltaSeconds = (now - this.lastRocketUpdateTime) / 1000;
-            const rocketDeltaMinutes = rocketDeltaSeconds / 60;
-            this.lastRocketUpdateTime = now;
-            
-            this.updateRockets(rocketDeltaMinutes);
-            this.updateColonies(deltaTimeInMinutes);
-            stateChanged = true;
-        }
 
         if (now - this.lastSaveTime > this.saveInterval) {
             // this.saveSession(); // Logic to persist
             this.lastSaveTime = now;
         }
-        
-        // Update Sol progress every 10 ticks
-        if(this.tickCounter % 10 === 0) {
-            const solDurationMs = CONFIG.game.minutesPerSol * 60 * 1000;
-            
-            // Initialize lastSolPassed if it's 0 (first run)
-            if (this.lastSolPassed === 0) {
-                this.lastSolPassed = now - (this.session.currentSolProgress * solDurationMs);
-            }
 
-            // check if a Sol has passed
-            if (now - this.lastSolPassed > solDurationMs) {
-                this.passSol();
-                stateChanged = true;
-            } else {
-                const progress = (now - this.lastSolPassed) / solDurationMs;
-                this.session.updateSolProgress(progress);
-                stateChanged = true;
-            }
+        this.stepAccumulatorMs += realDeltaMs * this.session.gameSpeed;
+
+        const stepMs = CONFIG.game.simulationStepMs;
+        let stateChanged = false;
+
+        // After a long stall (e.g. a background tab) catch up in coarse steps instead of thousands of fine ones
+        const backlogMs = this.stepAccumulatorMs - CONFIG.game.maxStepBacklogMs;
+        if (backlogMs > 0) {
+            this.runSteps(backlogMs / 60_000, CONFIG.game.minutesPerSol / CONFIG.offline.stepsPerSol);
+            this.stepAccumulatorMs -= backlogMs;
+            stateChanged = true;
         }
 
-        // Reset counter to avoid overflow (use a higher limit to allow both 10 and 30 checks)
-        if(this.tickCounter >= 300) {
-            this.tickCounter = 0;
+        while (this.stepAccumulatorMs >= stepMs) {
+            this.step(stepMs / 60_000);
+            this.stepAccumulatorMs -= stepMs;
+            stateChanged = true;
         }
 
         return stateChanged;
     }
 
+    getSpeed(): number {
+        return this.session.gameSpeed;
+    }
+
+    setSpeed(speed: number): void {
+        if (!(CONFIG.game.speeds as readonly number[]).includes(speed)) return;
+        this.session.gameSpeed = speed;
+        // Drop leftover time so a pause takes effect immediately
+        if (speed === 0) this.stepAccumulatorMs = 0;
+    }
+
+    /**
+     * One step of simulated time. Sol progression, rocket travel and colony production
+     * all advance from this single clock.
+     */
+    private step(deltaMinutes: number): void {
+        this.applyRandomEventEffects();
+        this.updateRockets(deltaMinutes);
+        this.updateColonies(deltaMinutes);
+        this.updateResearch(deltaMinutes);
+
+        let progress = this.session.currentSolProgress + deltaMinutes / CONFIG.game.minutesPerSol;
+        while (progress >= 1) {
+            this.passSol();
+            progress -= 1;
+        }
+        this.session.updateSolProgress(progress);
+    }
+
+    private runSteps(totalMinutes: number, stepMinutes: number): void {
+        let remainingMinutes = totalMinutes;
+        while (remainingMinutes > 0) {
+            const deltaMinutes = Math.min(stepMinutes, remainingMinutes);
+            remainingMinutes -= deltaMinutes;
+            this.step(deltaMinutes);
+        }
+    }
+
     // this method should be called when player completes a Sol to trigger any Sol-based events or updates
     private passSol(): void {
-        this.lastSolPassed = Date.now();
-        // Trigger any Sol-based events here, e.g. random events, market changes, etc.
         console.log("A new Sol has begun!");
 
         this.session.incrementSol();
+        this.session.getMarketLocationTypes().forEach(type => this.session.getMarket(type));
+        const random = this.session.randomEvents.random;
+        this.session.markets.forEach(market => market.updateSol(() => random.next()));
+
+        // Retry journeys and route departures that were stuck waiting for fuel money
+        this.session.rockets.forEach(rocket => {
+            if (rocket.getDestination()) return;
+            if (rocket.waypoints.length > 0) {
+                this.continueJourney(rocket);
+            } else if (rocket.route) {
+                this.runRoute(rocket);
+            }
+        });
 
         // For now, we just call endOfSolUpdate on colonies to finalize production
+        const production: { colony: Colony; goodId: number; quantity: number }[] = [];
+        const endedSol = this.session.currentSol - 1;
+        this.session.company.colonies.forEach(colony => {
+            colony.endOfSolUpdate().forEach(({ goodId, quantity, lost }) => {
+                production.push({ colony, goodId, quantity });
+                if (lost > 0) {
+                    colony.recordStorageLoss(endedSol, goodId, lost);
+                    this.events.emit('storageOverflow', { colony, goodId, lost });
+                }
+            });
+        });
+
+        this.events.emit('solPassed', { sol: this.session.currentSol, production });
+
+        this.session.randomEvents.passSol();
+        this.rollRandomEvent();
+        this.applyRandomEventEffects();
+    }
+
+    /**
+     * Colonies, markets or rockets a random event could hit right now
+     */
+    private getRandomEventTargets(definition: RandomEventDefinition): { id: string | null; name: string }[] {
+        const running = this.session.randomEvents.getActive().filter(event => event.definitionId === definition.id);
+        const allowed = (type: LocationType) => definition.locations === null || definition.locations.includes(type);
+
+        switch (definition.target) {
+            case RandomEventTarget.COLONY:
+                return this.session.company.colonies
+                    .filter(colony => allowed(colony.locationId.getType()))
+                    .filter(colony => !running.some(event => event.targetId === colony.colonyId))
+                    // Damage needs a module that has a level to lose
+                    .filter(colony => !definition.effects.moduleLevelLoss || colony.getColonyModules().some(m => m.getLevel() > 1))
+                    .map(colony => ({ id: colony.colonyId, name: colony.name }));
+            case RandomEventTarget.MARKET:
+                return this.session.getMarketLocationTypes()
+                    .filter(allowed)
+                    .filter(type => !running.some(event => event.targetId === type))
+                    .map(type => ({ id: type, name: type }));
+            case RandomEventTarget.ROCKETS:
+                return running.length === 0 && this.session.rockets.some(rocket => rocket.getDestination())
+                    ? [{ id: null, name: 'Rockets in flight' }]
+                    : [];
+        }
+    }
+
+    /**
+     * Maybe starts a random event at the end of a sol. All randomness comes from the session's seeded generator.
+     */
+    private rollRandomEvent(): void {
+        const randomEvents = this.session.randomEvents;
+        const random = randomEvents.random;
+        if (randomEvents.getActive().length >= CONFIG.randomEvents.maxActive) return;
+        if (random.next() >= CONFIG.randomEvents.chancePerSol) return;
+
+        const candidates = Array.from(RandomEventRegistry.values()).filter(def => this.getRandomEventTargets(def).length > 0);
+        const definition = random.pickWeighted(candidates, def => def.weight);
+        if (!definition) return;
+        const target = random.pick(this.getRandomEventTargets(definition));
+        if (!target) return;
+
+        const goodId = definition.goods ? random.pick(definition.goods) ?? null : null;
+        let damage: { moduleIndex: number; levels: number } | null = null;
+
+        // Effects that hit once when the event starts
+        const delaySols = definition.effects.rocketDelaySols ?? 0;
+        if (delaySols > 0) {
+            this.session.rockets.filter(rocket => rocket.getDestination()).forEach(rocket => {
+                rocket.estimatedTravelTime += delaySols * CONFIG.game.minutesPerSol;
+                rocket.initialTravelTime += delaySols * CONFIG.game.minutesPerSol;
+            });
+        }
+        const colony = this.getColonyById(target.id);
+        if (definition.effects.moduleLevelLoss && colony) {
+            const modules = colony.getColonyModules();
+            const damageable = modules.filter(m => m.getLevel() > 1);
+            const module = random.pick(damageable);
+            if (module) {
+                damage = { moduleIndex: modules.indexOf(module), levels: module.decreaseLevel(definition.effects.moduleLevelLoss) };
+            }
+        }
+
+        const event = randomEvents.start({
+            definitionId: definition.id,
+            startSol: this.session.currentSol,
+            remainingSols: definition.durationSols,
+            targetId: target.id,
+            targetName: target.name,
+            goodId,
+            effects: { ...definition.effects },
+            damage
+        });
+        console.log(`Random event: ${definition.name} at ${target.name}`);
+        this.events.emit('randomEventStarted', { event });
+    }
+
+    /**
+     * Hands the lasting effects of the running random events to the colonies and markets
+     */
+    private applyRandomEventEffects(): void {
+        const randomEvents = this.session.randomEvents;
         this.session.company.colonies.forEach(colony => {
-            colony.endOfSolUpdate();
+            const hitsColony = (event: { targetId: string | null }) => event.targetId === colony.colonyId;
+            colony.eventProductionMultiplier = randomEvents.getMultiplier('productionMultiplier', hitsColony);
+            colony.eventSolarMultiplier = randomEvents.getMultiplier('solarOutput', hitsColony);
+        });
+        this.session.markets.forEach((market, locationType) => {
+            const factors = new Map<number, number>();
+            randomEvents.getActive()
+                .filter(event => event.targetId === locationType && event.goodId !== null)
+                .forEach(event => factors.set(event.goodId!, (factors.get(event.goodId!) ?? 1) * (event.effects.priceMultiplier ?? 1)));
+            market.setEventFactors(factors);
         });
     }
+
+    /**
+     * Applies the player's response to a running random event
+     */
+    chooseRandomEventOption(eventId: string, optionId: string): { ok: boolean; message?: string } {
+        const randomEvents = this.session.randomEvents;
+        const event = randomEvents.getActive().find(e => e.id === eventId);
+        if (!event) return { ok: false, message: 'The event is already over.' };
+        if (event.choice !== null) return { ok: false, message: 'Already decided.' };
+        const option = RandomEventRegistry.get(event.definitionId)?.options?.find(o => o.id === optionId);
+        if (!option) return { ok: false, message: 'Unknown choice.' };
+        if (!this.session.company.deductMoney(option.credits)) return { ok: false, message: 'Not enough credits!' };
+
+        randomEvents.choose(eventId, optionId);
+
+        if (option.repairsDamage && event.damage) {
+            const module = this.getColonyById(event.targetId)?.getColonyModules()[event.damage.moduleIndex];
+            for (let i = 0; module && i < event.damage.levels; i++) module.incrementLevel();
+        }
+        if (option.xp) this.awardXp(option.xp);
+
+        this.applyRandomEventEffects();
+        return { ok: true };
+    }
+
+    /**
+     * Replays the wall-clock time that passed since the session was saved.
+     * Sols, rocket travel, logistics routes and exploration missions advance in fixed steps
+     * so that arrivals and sol boundaries interleave the same way they would have live.
+     * Offline time always runs at 1x, independent of the selected game speed.
+     */
+    simulateOfflineProgress(elapsedMs: number): OfflineReport {
+        const minutesPerSol = CONFIG.game.minutesPerSol;
+        const maxMinutes = CONFIG.offline.maxSols * minutesPerSol;
+        const remainingMinutes = Math.min(Math.max(0, elapsedMs) / 60_000, maxMinutes);
+
+        const report: OfflineReport = {
+            elapsedMs,
+            solsSimulated: remainingMinutes / minutesPerSol,
+            moneyBefore: this.session.company.getMoney(),
+            moneyAfter: this.session.company.getMoney(),
+            producedGoods: new Map(),
+            arrivals: [],
+            coloniesFounded: [],
+            randomEvents: []
+        };
+
+        const unsubscribers = [
+            this.events.on('solPassed', ({ production }) => {
+                production.forEach(({ goodId, quantity }) => {
+                    report.producedGoods.set(goodId, (report.producedGoods.get(goodId) ?? 0) + quantity);
+                });
+            }),
+            this.events.on('rocketArrived', ({ rocket, location }) => {
+                report.arrivals.push({ rocketName: rocket.name, locationName: location.name });
+            }),
+            this.events.on('colonyFounded', ({ colony }) => {
+                report.coloniesFounded.push(colony.name);
+            }),
+            this.events.on('randomEventStarted', ({ event }) => {
+                const name = RandomEventRegistry.get(event.definitionId)?.name ?? event.definitionId;
+                report.randomEvents.push(`${name} (${event.targetName})`);
+            })
+        ];
+
+        this.catchingUp = true;
+        try {
+            this.runSteps(remainingMinutes, minutesPerSol / CONFIG.offline.stepsPerSol);
+        } finally {
+            this.catchingUp = false;
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+        }
+
+        report.moneyAfter = this.session.company.getMoney();
+
+        // Restart live timing from the caught-up state
+        this.lastTickTime = this.clock.now();
+        this.stepAccumulatorMs = 0;
+
+        return report;
+    }
     
     private updateRockets(deltaMinutes: number): boolean {
         let changed = false;
@@ -140,10 +393,17 @@ export class GameManager {
                 if (rocket.estimatedTravelTime <= 0) {
                     rocket.completeTravel();
                     console.log(`Rocket ${rocket.name} arrived at ${rocket.getLocation().name}`);
+                    this.events.emit('rocketArrived', { rocket, location: rocket.getLocation() });
+
+                    // A stop on the way: refuel and fly the next leg
+                    if (rocket.waypoints.length > 0) {
+                        this.continueJourney(rocket);
+                        return;
+                    }
 
-                    // Handle sell route automation BEFORE exploration missions
-                    if (rocket.sellRoute) {
-                        this.handleSellRouteAutomation(rocket);
+                    // Handle route automation BEFORE exploration missions
+                    if (rocket.route) {
+                        this.runRoute(rocket);
                     }
 
                     const missionIndex = this.session.explorationMissions.findIndex(m => m.rocketId === rocket.getId());
@@ -154,12 +414,9 @@ export class GameManager {
                             if (rocket.getLocation().getType() === mission.targetType) {
                                 const alreadyColonized = this.session.company.colonies.some(c => c.locationId.getType() === mission.targetType);
                                 if (!alreadyColonized) {
-                                    const newColony = new Colony(
-                                        `col-${Date.now()}`,
-                                        `${rocket.getLocation().name} Outpost`,
-                                        rocket.getLocation()
-                                    );
-                                    this.session.company.addColony(newColony);
+                                    const newColony = this.foundColony(rocket.getLocation());
+                                    this.events.emit('colonyFounded', { colony: newColony, rocket });
+                                    this.awardXp(CONFIG.company.xpPerColonyFounded);
                                     console.log(`Exploration complete: established colony at ${rocket.getLocation().name}`);
                                 }
                             }
@@ -181,15 +438,137 @@ export class GameManager {
          
          if (solsPassed < 0.0001) return false; // No meaningful change
          this.session.company.colonies.forEach(colony => {
+             // Solar farms only run during the part of the sol the sun is up
+             colony.daylight = this.session.currentSolProgress < getDaylightShareForLocation(colony.locationId.getType());
              colony.tick(solsPassed);
+             colony.takeOverflow().forEach((units, goodId) => this.handleOverflow(colony, goodId, units));
          });
          return true;
     }
 
-    // Actions
+    /**
+     * Sells or ships produced units a colony had no room for, following its overflow policy.
+     * Sales go to the colony's local market at a discount; shipments fill idle rockets docked at the colony.
+     * Whatever is left is lost.
+     */
+    private handleOverflow(colony: Colony, goodId: number, units: number): void {
+        let remaining = units;
+
+        if (colony.overflowPolicy === OverflowPolicy.SELL) {
+            const earned = this.session.getMarket(colony.locationId.getType()).sell(goodId, remaining) * CONFIG.storage.overflowSellDiscount;
+            this.session.company.addMoney(earned);
+            this.awardXp(earned * CONFIG.company.xpPerCreditEarned);
+            colony.addToTally(goodId, { sold: remaining, earned });
+            remaining = 0;
+        } else if (colony.overflowPolicy === OverflowPolicy.SHIP) {
+            const good = GoodsRegistry.get(goodId);
+            const idleRockets = this.session.rockets.filter(rocket =>
+                rocket.getLocation().getId() === colony.locationId.getId()
+                && !rocket.getDestination() && !rocket.route && rocket.waypoints.length === 0);
+            idleRockets.forEach(rocket => {
+                if (!good || remaining <= 0) return;
+                const amount = Math.min(remaining, rocket.getFreeRoomFor(good));
+                if (amount > 0 && rocket.addItemPosition(new ItemPosition(good, amount))) {
+                    colony.addToTally(goodId, { shipped: amount });
+                    remaining -= amount;
+                }
+            });
+        }
+
+        if (remaining > 0) {
+            colony.addToTally(goodId, { lost: remaining });
+        }
+    }
+
+    /**
+     * Starts the head of the research queue once its costs can be paid, and advances it
+     */
+    private updateResearch(deltaMinutes: number): void {
+        const research = this.session.company.research;
+        if (!research.getCurrent()) return;
+
+        if (!research.isStarted() && !this.payForResearch()) return;
+
+        const finished = research.advance(deltaMinutes / CONFIG.game.minutesPerSol);
+        if (finished) {
+            console.log(`Research complete: ${finished.name}`);
+            this.events.emit('researchCompleted', { technology: finished });
+        }
+    }
+
+    /**
+     * Pays credits and science goods for the head of the research queue. Goods are taken from
+     * the colonies in founding order. Nothing is taken unless everything can be paid.
+     */
+    private payForResearch(): boolean {
+        const research = this.session.company.research;
+        const tech = research.getCurrent();
+        if (!tech) return false;
+
+        const colonies = this.session.company.colonies;
+        const stockOf = (goodId: number) => colonies.reduce((total, colony) =>
+            total + (colony.getItemPositions().find(i => i.good.getId() === goodId)?.quantity ?? 0), 0);
+        if (tech.goods.some(({ goodId, quantity }) => stockOf(goodId) < quantity)) return false;
+        if (!this.session.company.deductMoney(tech.credits)) return false;
+
+        tech.goods.forEach(({ goodId, quantity }) => {
+            let remaining = quantity;
+            colonies.forEach(colony => {
+                if (remaining <= 0) return;
+                const available = colony.getItemPositions().find(i => i.good.getId() === goodId)?.quantity ?? 0;
+                const taken = Math.min(available, remaining);
+                if (taken > 0 && colony.reduceItemQuantity(goodId, taken)) remaining -= taken;
+            });
+        });
+
+        research.markStarted();
+        return true;
+    }
+
+    /**
+     * Adds company experience and announces every level reached
+     */
+    awardXp(amount: number): void {
+        const company = this.session.company;
+        const startLevel = company.getLevel();
+        const milestones = company.addXp(amount);
+        if (company.getLevel() > startLevel) {
+            console.log(`Company reached level ${company.getLevel()}`);
+            this.events.emit('companyLevelUp', { level: company.getLevel(), milestones });
+        }
+    }
+
+    enqueueResearch(techId: string): boolean {
+        return this.session.company.research.enqueue(techId);
+    }
+
+    dequeueResearch(techId: string): boolean {
+        return this.session.company.research.dequeue(techId);
+    }
 
-    private static readonly EXPLORATION_BASE_PRICE = 100_000;
-    private static readonly EXPLORATION_PRICE_BASE = 4;
+    /**
+     * Demolishes a colony module and pays its refund. Returns the refund, or null if the module isn't the colony's.
+     */
+    demolishModule(colony: Colony, module: Module): number | null {
+        const index = colony.getColonyModules().indexOf(module);
+        const refund = colony.demolishModule(module);
+        if (refund === null) return null;
+        this.session.randomEvents.forgetModule(colony.colonyId, index);
+        this.session.company.addMoney(refund);
+        return refund;
+    }
+
+    /**
+     * Packs a colony module into a rocket docked at the colony, see Colony.packModule
+     */
+    packModule(colony: Colony, module: Module, rocket: Rocket): boolean {
+        const index = colony.getColonyModules().indexOf(module);
+        if (!colony.packModule(module, rocket)) return false;
+        this.session.randomEvents.forgetModule(colony.colonyId, index);
+        return true;
+    }
+
+    // Actions
 
     getExplorationTargetsForRocket(rocket: Rocket): LocationType[] {
         if (rocket.getDestination()) return [];
@@ -202,30 +581,28 @@ export class GameManager {
         const candidates = Object.values(LocationType)
             .filter(t => t !== fromType)
             .filter(t => t !== LocationType.TRAVELING)
-            .filter(t => !colonizedTypes.has(t as LocationType)) as LocationType[];
+            .filter(t => !colonizedTypes.has(t as LocationType))
+            .filter(t => this.session.company.isLocationUnlocked(t as LocationType)) as LocationType[];
 
-        return candidates.filter(targetType =>
-            SpaceConnections.some(conn => conn.from === fromType && conn.to === targetType)
-        );
+        return candidates.filter(targetType => this.planTravel(rocket, targetType, { explore: true }) !== null);
     }
 
-    getExplorationQuote(rocket: Rocket, targetType: LocationType): { priceCredits: number; fuelUnits: number; unlockMinutes: number } | null {
-        const fromType = rocket.getLocation().getType();
-        const connection = SpaceConnections.find(conn => conn.from === fromType && conn.to === targetType);
-        if (!connection) return null;
+    /**
+     * Price and travel plan of an exploration. fuelUnits is the fuel needed at the origin for the first leg;
+     * later legs refuel at the colonies on the way.
+     */
+    getExplorationQuote(rocket: Rocket, targetType: LocationType, preference: TravelPreference = TravelPreference.FASTEST): ExplorationQuote | null {
+        const plan = this.planTravel(rocket, targetType, { preference, explore: true });
+        if (!plan) return null;
 
-        const colonyCount = this.session.company.colonies.length;
-        const exponent = Math.max(0, colonyCount - 1);
-        const priceCredits = Math.floor(
-            GameManager.EXPLORATION_BASE_PRICE * Math.pow(GameManager.EXPLORATION_PRICE_BASE, exponent)
-        );
+        const priceCredits = this.session.company.getExplorationPrice();
 
-        const fuelUnits = connection.fuelCost * 2;
-        const unlockMinutes = connection.travelTime * CONFIG.game.minutesPerSol * 2;
-        return { priceCredits, fuelUnits, unlockMinutes };
+        const fuelUnits = this.getLaunchFuel(rocket, plan.legs[0]!.fuelUnits);
+        const unlockMinutes = plan.travelSols * CONFIG.game.minutesPerSol;
+        return { priceCredits, fuelUnits, unlockMinutes, plan };
     }
 
-    startExploration(rocket: Rocket, targetType: LocationType): { ok: boolean; message?: string; quote?: { priceCredits: number; fuelUnits: number; unlockMinutes: number } } {
+    startExploration(rocket: Rocket, targetType: LocationType, preference: TravelPreference = TravelPreference.FASTEST): { ok: boolean; message?: string; quote?: ExplorationQuote } {
         if (rocket.getDestination()) return { ok: false, message: 'Rocket is already traveling.' };
         if (this.session.explorationMissions.some(m => m.rocketId === rocket.getId())) {
             return { ok: false, message: 'Rocket is already on an exploration mission.' };
@@ -233,8 +610,11 @@ export class GameManager {
 
         const alreadyColonized = this.session.company.colonies.some(c => c.locationId.getType() === targetType);
         if (alreadyColonized) return { ok: false, message: 'Target already has a colony.' };
+        if (!this.session.company.isLocationUnlocked(targetType)) {
+            return { ok: false, message: 'Target needs research or a higher company level first.' };
+        }
 
-        const quote = this.getExplorationQuote(rocket, targetType);
+        const quote = this.getExplorationQuote(rocket, targetType, preference);
         if (!quote) return { ok: false, message: 'No valid route to target.' };
 
         const originColony = this.session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
@@ -249,27 +629,21 @@ export class GameManager {
             return { ok: false, message: 'Not enough money.' };
         }
 
-        // Deduct fuel
-        originColony.reduceItemQuantity(3, quote.fuelUnits);
-
-        // Start travel to the target location and override duration to represent exploration (round-trip + setup)
-        const targetLocation = this.getGlobalLocation(targetType);
-        const travelStarted = rocket.startTravel(targetLocation);
-        if (!travelStarted) {
+        // The last leg takes the exploration duration (round-trip + setup), see continueJourney
+        this.session.explorationMissions.push({ rocketId: rocket.getId(), targetType });
+        rocket.waypoints = quote.plan.legs.map(leg => leg.to);
+        if (!this.continueJourney(rocket)) {
             // Refund if travel couldn't start
             this.session.company.addMoney(quote.priceCredits);
-            originColony.addItemPosition(new ItemPosition(GoodsRegistry.get(3)!, quote.fuelUnits));
+            this.session.explorationMissions.pop();
+            rocket.waypoints = [];
             return { ok: false, message: 'Failed to launch exploration.' };
         }
 
-        rocket.estimatedTravelTime = quote.unlockMinutes;
-        rocket.initialTravelTime = quote.unlockMinutes;
-        this.session.explorationMissions.push({ rocketId: rocket.getId(), targetType });
-
         return { ok: true, quote };
     }
 
-    startTravel(rocket: Rocket, targetType: LocationType): boolean {
+    startTravel(rocket: Rocket, targetType: LocationType, preference: TravelPreference = TravelPreference.FASTEST): boolean {
         if (rocket.getDestination()) {
             console.log('Rocket is already traveling.');
             return false;
@@ -287,28 +661,23 @@ export class GameManager {
             return false;
         }
 
-        const fromType = rocket.getLocation().getType();
-        const connection = findSpaceConnection(fromType, targetType);
-        if (!connection) {
+        const plan = this.planTravel(rocket, targetType, { preference });
+        if (!plan) {
             console.log('No valid route to target.');
             return false;
         }
 
-        const fuelUnits = connection.fuelCost;
+        // Fuel for the first leg has to be at the origin, later legs refuel on the way
+        const fuelUnits = this.getLaunchFuel(rocket, plan.legs[0]!.fuelUnits);
         const fuelItem = originColony.getItemPositions().find(i => i.good.getId() === 3);
         if (!fuelItem || fuelItem.quantity < fuelUnits) {
             console.log('Not enough Fuel.');
             return false;
         }
 
-        // Deduct fuel
-        originColony.reduceItemQuantity(3, fuelUnits);
-
-        // Start travel
-        const travelStarted = rocket.startTravel(targetColony.locationId);
-        if (!travelStarted) {
-            // Refund fuel if travel couldn't start
-            originColony.addItemPosition(new ItemPosition(GoodsRegistry.get(3)!, fuelUnits));
+        rocket.waypoints = plan.legs.map(leg => leg.to);
+        if (!this.continueJourney(rocket)) {
+            rocket.waypoints = [];
             console.log('Failed to start travel.');
             return false;
         }
@@ -338,7 +707,7 @@ export class GameManager {
         }
 
         if (targetLocation) {
-            const success = rocket.startTravel(targetLocation);
+            const success = rocket.startTravel(targetLocation, this.session.getSolTime());
             if (success) {
                 console.log("Travel started");
             } else {
@@ -347,12 +716,21 @@ export class GameManager {
         }
     }
 
+    /**
+     * Adds a new outpost at the location, stocked with the upkeep its first colonists need
+     */
+    private foundColony(location: SpaceLocation): Colony {
+        const colony = new Colony(`col-${this.clock.now()}`, `${location.name} Outpost`, location);
+        this.session.company.addColony(colony);
+        colony.stockStartingSupply();
+        return colony;
+    }
+
     establishColony(location: SpaceLocation) {
         // Simplification: Check credits, create colony
         if (this.session.company.credits >= 1000) {
             this.session.company.credits -= 1000;
-            const newColony = new Colony(`col-${Date.now()}`, `${location.name} Outpost`, location);
-            this.session.company.addColony(newColony);
+            this.foundColony(location);
             console.log("Colony established");
         } else {
             console.log("Not enough credits");
@@ -362,7 +740,7 @@ export class GameManager {
     buildRocket(name: string, location: SpaceLocation) {
         if (this.session.company.credits >= 500) {
             this.session.company.credits -= 500;
-            const id = `rkt-${Date.now()}`;
+            const id = `rkt-${this.clock.now()}`;
             const rocket = new Rocket(id, name, 0, location);
             this.session.addRocket(rocket);
             console.log("Rocket built");
@@ -383,172 +761,291 @@ export class GameManager {
          return new SpaceLocation(type, type, `loc-${type}`);
     }
 
-    // Sell Route Automation
-    handleSellRouteAutomation(rocket: Rocket): boolean {
-        if (!rocket.sellRoute) return false;
-
-        const currentLocation = rocket.getLocation();
-
-        // Check if we just arrived somewhere
-        if (rocket.sellRouteState === SellRouteState.TRAVELING_TO_EARTH) {
-            if (currentLocation.getType() === LocationType.EARTH) {
-                return this.executeSellAtEarth(rocket);
-            }
-        } else if (rocket.sellRouteState === SellRouteState.TRAVELING_TO_ORIGIN) {
-            const originColony = this.getColonyById(rocket.sellRouteOriginId);
-            if (originColony && currentLocation.getId() === originColony.locationId.getId()) {
-                return this.executeReloadAtOrigin(rocket);
+    // Route Automation
+
+    /**
+     * Checks that a list of stops can be flown as a loop. Returns the problem, or null if the route is valid.
+     */
+    getRouteProblem(rocket: Rocket, stops: RouteStop[]): string | null {
+        if (stops.length < 2) return 'A route needs at least two stops';
+
+        for (let i = 0; i < stops.length; i++) {
+            const from = this.getColonyById(stops[i]!.colonyId);
+            const to = this.getColonyById(stops[(i + 1) % stops.length]!.colonyId);
+            if (!from || !to) return 'A stop has no colony';
+            if (from === to) return `${from.name} follows itself`;
+            if (!planTravel(rocket, from.locationId.getType(), to.locationId.getType(), this.session.getRefuelStops())) {
+                return `No connection from ${from.name} to ${to.name}`;
             }
-        } else if (rocket.sellRouteState === SellRouteState.IDLE) {
-            // Start new cycle
-            return this.startSellRouteFromOrigin(rocket);
         }
+        return null;
+    }
+
+    /**
+     * Puts a rocket on a route, replacing any route it follows. The route continues at the stop the rocket
+     * is docked at or heading to, otherwise at the first stop.
+     */
+    startRoute(rocket: Rocket, stops: RouteStop[]): boolean {
+        if (this.getRouteProblem(rocket, stops)) return false;
 
-        return false;
+        const current = rocket.getDestination() ?? rocket.getLocation();
+        const currentIndex = stops.findIndex(stop =>
+            this.getColonyById(stop.colonyId)?.locationId.getId() === current.getId()
+        );
+        rocket.route = new RouteProgram(stops, Math.max(0, currentIndex));
+        this.runRoute(rocket);
+        return true;
     }
 
-    private startSellRouteFromOrigin(rocket: Rocket): boolean {
-        const originColony = this.getColonyById(rocket.sellRouteOriginId);
-        if (!originColony) {
-            rocket.sellRoute = false;
-            hudController.showToast(`${rocket.name}: Origin colony not found, sell route stopped`, 3000);
+    stopRoute(rocket: Rocket): void {
+        rocket.route = null;
+    }
+
+    /**
+     * Advances a docked rocket along its route: services the stop it is docked at, then departs for the next one.
+     * Departures that fail for lack of money are retried every sol.
+     */
+    runRoute(rocket: Rocket): boolean {
+        const route = rocket.route;
+        if (!route || rocket.getDestination()) return false;
+
+        const stop = route.getNextStop();
+        const stopColony = stop ? this.getColonyById(stop.colonyId) : null;
+        if (!stop || !stopColony) {
+            rocket.route = null;
+            this.events.emit('routeIssue', { rocket, reason: 'Route stop colony not found', stopped: true });
             return false;
         }
 
-        // Load all available goods (excluding fuel)
-        this.loadAllGoods(rocket, originColony);
+        if (stopColony.locationId.getId() === rocket.getLocation().getId()) {
+            this.serviceRouteStop(rocket, stopColony, stop);
+            route.advance();
+        }
 
-        // Find connection to Earth
-        const connection = findSpaceConnection(originColony.locationId.getType(), LocationType.EARTH);
-        if (!connection) {
-            rocket.sellRoute = false;
-            hudController.showToast(`${rocket.name}: No route to Earth, sell route stopped`, 3000);
+        const nextStop = route.getNextStop()!;
+        const nextColony = this.getColonyById(nextStop.colonyId);
+        if (!nextColony) {
+            rocket.route = null;
+            this.events.emit('routeIssue', { rocket, reason: 'Route stop colony not found', stopped: true });
             return false;
         }
+        return this.departOnRoute(rocket, nextColony);
+    }
 
-        const fuelNeeded = connection.fuelCost;
+    /**
+     * Applies the rules of a stop: unloading and selling come first so the freed space can be loaded again
+     */
+    private serviceRouteStop(rocket: Rocket, colony: Colony, stop: RouteStop): void {
+        const matches = (rule: RouteRule, goodId: number) => rule.goodId === null || rule.goodId === goodId;
+
+        stop.rules.filter(rule => rule.action === RouteAction.UNLOAD).forEach(rule => {
+            rocket.getItemPositions()
+                .filter(item => matches(rule, item.good.getId()))
+                .forEach(item => {
+                    const freeSpace = Math.floor(colony.getFreeRoomFor(item.good));
+                    const amount = Math.min(Math.floor(item.quantity), freeSpace);
+                    if (amount <= 0) return;
+                    if (colony.addItemPosition(new ItemPosition(item.good, amount))) {
+                        rocket.reduceItemQuantity(item.good.getId(), amount);
+                    }
+                });
+        });
 
-        // Check fuel availability and auto-buy if needed
-        const fuelItem = originColony.getItemPositions().find(i => i.good.getId() === 3);
-        const availableFuel = fuelItem ? fuelItem.quantity : 0;
+        const sellRules = stop.rules.filter(rule => rule.action === RouteAction.SELL);
+        if (sellRules.length > 0) {
+            const goodIds = rocket.getItemPositions()
+                .map(item => item.good.getId())
+                .filter(goodId => sellRules.some(rule => matches(rule, goodId)));
+            this.sellRocketCargo(rocket, goodIds);
+        }
+
+        stop.rules.filter(rule => rule.action === RouteAction.LOAD).forEach(rule => {
+            this.loadGoods(rocket, colony, rule.goodId);
+        });
+    }
 
-        if (availableFuel < fuelNeeded) {
-            const fuelToBuy = fuelNeeded - availableFuel;
-            const fuelGood = GoodsRegistry.get(3)!;
+    private departOnRoute(rocket: Rocket, destination: Colony): boolean {
+        const plan = this.planTravel(rocket, destination.locationId.getType());
+        if (!plan) {
+            rocket.route = null;
+            this.events.emit('routeIssue', { rocket, reason: `No route to ${destination.name}`, stopped: true });
+            return false;
+        }
 
-            // If not at Earth, multiply price by 10x
-            const priceMultiplier = originColony.locationId.getType() === LocationType.EARTH ? 1 : 10;
-            const cost = fuelToBuy * fuelGood.marketBuyPrice * priceMultiplier;
+        rocket.waypoints = plan.legs.map(leg => leg.to);
+        return this.continueJourney(rocket);
+    }
 
-            if (!this.session.company.deductMoney(cost)) {
-                hudController.showToast(`${rocket.name}: Not enough credits to buy fuel (need ${GUI.formatMoney(cost)})`, 3000);
-                return false;
-            }
+    // Journeys
 
-            // Add fuel to origin colony (ignore capacity limits)
-            const existingFuel = originColony.getItemPositions().find(i => i.good.getId() === 3);
-            if (existingFuel) {
-                existingFuel.quantity += fuelToBuy;
-            } else {
-                originColony.getItemPositions().push(new ItemPosition(fuelGood, fuelToBuy));
-            }
+    /**
+     * Best path from where the rocket is docked to a location type for a launch now, or null if it can not get there
+     */
+    planTravel(rocket: Rocket, targetType: LocationType, options: TravelPlanOptions = {}): TravelPlan | null {
+        return planTravel(rocket, rocket.getLocation().getType(), targetType, this.session.getRefuelStops(), {
+            departureSol: this.session.getSolTime(),
+            ...options
+        });
+    }
+
+    /**
+     * Flies the next leg of a rocket's journey from the colony it is docked at. The leg's fuel comes from the
+     * colony and any shortfall is bought at the local market. A rocket that can not pay waits and is retried every sol.
+     */
+    private continueJourney(rocket: Rocket): boolean {
+        const nextType = rocket.waypoints[0];
+        if (!nextType || rocket.getDestination()) return false;
+
+        const sol = this.session.getSolTime();
+        const colony = this.session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
+        const connection = findSpaceConnection(rocket.getLocation().getType(), nextType, sol);
+        if (!colony || !connection) {
+            rocket.waypoints = [];
+            this.events.emit('travelIssue', { rocket, reason: `No connection to ${nextType}` });
+            return false;
         }
 
-        // Deduct fuel and start travel
-        originColony.reduceItemQuantity(3, fuelNeeded);
-        const earthLocation = this.session.company.colonies.find(c =>
-            c.locationId.getType() === LocationType.EARTH
-        )!.locationId;
+        // The final leg of an exploration is flown there and back to survey the target
+        const isExploration = rocket.waypoints.length === 1 &&
+            this.session.explorationMissions.some(m => m.rocketId === rocket.getId() && m.targetType === nextType);
+        const legFactor = isExploration ? 2 : 1;
+
+        const fuelNeeded = Math.ceil(rocket.getFuelCost(connection) * legFactor * colony.getLaunchFuelMultiplier());
+        const fuel = this.ensureFuel(colony, fuelNeeded);
+        if (!fuel.ok) {
+            // A waiting rocket is retried every sol, the player hears about it once
+            if (this.fuelWaits.get(rocket.getId()) !== fuel.message) {
+                this.fuelWaits.set(rocket.getId(), fuel.message ?? '');
+                this.events.emit('travelIssue', { rocket, reason: `Waiting at ${colony.name} for ${fuelNeeded} Fuel. ${fuel.message}` });
+            }
+            return false;
+        }
+        this.fuelWaits.delete(rocket.getId());
 
-        rocket.startTravel(earthLocation);
-        rocket.sellRouteState = SellRouteState.TRAVELING_TO_EARTH;
+        colony.reduceItemQuantity(3, fuelNeeded);
+        if (!rocket.startTravel(this.getGlobalLocation(nextType), sol)) {
+            colony.addItemPosition(new ItemPosition(GoodsRegistry.get(3)!, fuelNeeded));
+            return false;
+        }
 
+        rocket.waypoints.shift();
+        rocket.estimatedTravelTime *= legFactor;
+        rocket.initialTravelTime = rocket.estimatedTravelTime;
         return true;
     }
 
-    private executeSellAtEarth(rocket: Rocket): boolean {
-        const earthHQ = this.session.company.colonies.find(c =>
-            c.locationId.getType() === LocationType.EARTH
-        )!;
+    /**
+     * Fuel a launch from the colony the rocket is docked at burns, after the savings of its Spaceports
+     */
+    private getLaunchFuel(rocket: Rocket, fuelUnits: number): number {
+        const colony = this.session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
+        return Math.ceil(fuelUnits * (colony?.getLaunchFuelMultiplier() ?? 1));
+    }
+
+    /**
+     * Makes sure a colony holds the given amount of fuel, buying the shortfall at the local market
+     */
+    private ensureFuel(colony: Colony, fuelNeeded: number): { ok: boolean; message?: string } {
+        const fuelItem = colony.getItemPositions().find(i => i.good.getId() === 3);
+        const availableFuel = fuelItem ? fuelItem.quantity : 0;
+        if (availableFuel >= fuelNeeded) return { ok: true };
+
+        return this.buyColonyGoods(colony, 3, Math.ceil(fuelNeeded - availableFuel));
+    }
+
+    /**
+     * Sells the cargo of a docked rocket, or only the given goods, at the live prices of the local market.
+     * Each sale moves the price for the next one. Returns the money earned.
+     */
+    sellRocketCargo(rocket: Rocket, goodIds?: number[]): number {
+        const location = rocket.getLocation();
+        const market = this.session.getMarket(location.getType());
 
-        // Calculate total value and sell all goods
         let totalEarned = 0;
-        const itemsToSell: Array<{ goodId: number, quantity: number }> = [];
+        const sold: Array<{ goodId: number, quantity: number, earned: number }> = [];
 
         rocket.getItemPositions().forEach(item => {
+            if (goodIds && !goodIds.includes(item.good.getId())) return;
             const quantity = Math.floor(item.quantity);
-            const price = item.good.marketSellPrice * quantity;
-            totalEarned += price;
-            itemsToSell.push({ goodId: item.good.getId(), quantity });
+            if (quantity <= 0) return;
+            const earned = market.sell(item.good.getId(), quantity);
+            totalEarned += earned;
+            sold.push({ goodId: item.good.getId(), quantity, earned });
         });
 
         // Remove goods and add money
-        itemsToSell.forEach(({ goodId, quantity }) => {
+        sold.forEach(({ goodId, quantity }) => {
             rocket.reduceItemQuantity(goodId, quantity);
         });
         this.session.company.addMoney(totalEarned);
+        this.awardXp(totalEarned * CONFIG.company.xpPerCreditEarned);
 
-        // Show notification
-        hudController.showToast(`${rocket.name} earned ${GUI.formatMoney(totalEarned)}!`, 3000);
-
-        // Prepare return trip
-        const originColony = this.getColonyById(rocket.sellRouteOriginId);
-        if (!originColony) {
-            rocket.sellRoute = false;
-            return false;
-        }
-
-        const connection = findSpaceConnection(LocationType.EARTH, originColony.locationId.getType());
-        if (!connection) {
-            rocket.sellRoute = false;
-            return false;
+        if (sold.length > 0) {
+            this.events.emit('saleCompleted', { rocket, colony: null, location, earned: totalEarned, sold });
         }
+        return totalEarned;
+    }
 
-        const fuelNeeded = connection.fuelCost;
-        const earthFuel = earthHQ.getItemPositions().find(i => i.good.getId() === 3);
-        const availableFuel = earthFuel ? earthFuel.quantity : 0;
+    /**
+     * Sells goods from a colony's storage at the live prices of the colony's local market. Quantities are
+     * cut to whole units in stock, and each sale moves the price for the next one. Returns the money earned.
+     */
+    sellColonyGoods(colony: Colony, sales: { goodId: number; quantity: number }[]): number {
+        const location = colony.locationId;
+        const market = this.session.getMarket(location.getType());
 
-        // Auto-buy fuel if needed (ignore storage limits)
-        if (availableFuel < fuelNeeded) {
-            const fuelToBuy = fuelNeeded - availableFuel;
-            const fuelGood = GoodsRegistry.get(3)!;
-            const cost = fuelToBuy * fuelGood.marketBuyPrice;
+        let totalEarned = 0;
+        const sold: Array<{ goodId: number, quantity: number, earned: number }> = [];
+
+        sales.forEach(({ goodId, quantity: wanted }) => {
+            const item = colony.getItemPositions().find(i => i.good.getId() === goodId);
+            const quantity = Math.min(Math.floor(wanted), Math.floor(item?.quantity ?? 0));
+            if (quantity <= 0 || !colony.reduceItemQuantity(goodId, quantity)) return;
+            if (item!.quantity <= 0) colony.removeItemPosition(goodId);
+            const earned = market.sell(goodId, quantity);
+            totalEarned += earned;
+            sold.push({ goodId, quantity, earned });
+        });
 
-            if (!this.session.company.deductMoney(cost)) {
-                hudController.showToast(`${rocket.name}: Not enough credits to buy fuel for return trip`, 3000);
-                rocket.sellRoute = false;
-                return false;
-            }
+        this.session.company.addMoney(totalEarned);
+        this.awardXp(totalEarned * CONFIG.company.xpPerCreditEarned);
 
-            // Force add fuel (ignore capacity limits)
-            const existingFuel = earthHQ.getItemPositions().find(i => i.good.getId() === 3);
-            if (existingFuel) {
-                existingFuel.quantity += fuelToBuy;
-            } else {
-                earthHQ.getItemPositions().push(new ItemPosition(fuelGood, fuelToBuy));
-            }
+        if (sold.length > 0) {
+            this.events.emit('saleCompleted', { rocket: null, colony, location, earned: totalEarned, sold });
         }
-
-        // Deduct fuel and start return
-        earthHQ.reduceItemQuantity(3, fuelNeeded);
-        rocket.startTravel(originColony.locationId);
-        rocket.sellRouteState = SellRouteState.TRAVELING_TO_ORIGIN;
-
-        return true;
+        return totalEarned;
     }
 
-    private executeReloadAtOrigin(rocket: Rocket): boolean {
-        // Restart the cycle
-        rocket.sellRouteState = SellRouteState.IDLE;
-        return this.startSellRouteFromOrigin(rocket);
+    /**
+     * Buys goods at the live price of the colony's local market into the colony's storage. The goods must fit
+     * into the room of their storage class, and each unit bought raises the price of the next one.
+     */
+    buyColonyGoods(colony: Colony, goodId: number, quantity: number): { ok: boolean; message?: string } {
+        const good = GoodsRegistry.get(goodId);
+        if (!good || quantity <= 0) return { ok: false, message: 'Nothing to buy.' };
+        if (colony.getFreeRoomFor(good) < quantity) {
+            return { ok: false, message: `Not enough ${StorageClass.describe(good.storageClass)} storage at ${colony.name}.` };
+        }
+
+        const market = this.session.getMarket(colony.locationId.getType());
+        if (!this.session.company.deductMoney(market.quotePurchase(goodId, quantity))) {
+            return { ok: false, message: 'Not enough money.' };
+        }
+        market.buy(goodId, quantity);
+        colony.addItemPosition(new ItemPosition(good, quantity));
+        return { ok: true };
     }
 
-    private loadAllGoods(rocket: Rocket, source: Colony): void {
+    /**
+     * Loads one good, or every good when goodId is null, until the rocket is full. Fuel is never loaded.
+     */
+    private loadGoods(rocket: Rocket, source: Colony, goodId: number | null): void {
         const remainingCapacity = rocket.getCapacity() - rocket.getTotalQuantity();
         let loaded = 0;
 
-        // Load all goods except fuel
-        const items = source.getItemPositions().filter(i => i.good.getId() !== 3);
+        const items = source.getItemPositions()
+            .filter(i => i.good.getId() !== 3)
+            .filter(i => goodId === null || i.good.getId() === goodId);
 
         for (const item of items) {
             if (loaded >= remainingCapacity) break;
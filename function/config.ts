@@ -7,29 +7,71 @@ export const CONFIG = {
     game: {
         minutesPerSol: 0.5,
         autoSaveIntervalMs: 60000, // Auto-save every minute
+        simulationStepMs: 100,     // Fixed simulation step in simulated milliseconds
+        maxStepBacklogMs: 10_000,  // Backlog beyond this is caught up in coarse steps
+        speeds: [0, 1, 2, 5, 10],  // Selectable speed multipliers (0 = paused)
+    },
+
+    // Offline progress (catch-up simulation when a save is loaded)
+    offline: {
+        maxSols: 2880,          // Cap on simulated sols (one day at 0.5 min/sol)
+        stepsPerSol: 4,         // Simulation steps per sol while catching up
+        minSolsForReport: 1,    // Only show the summary if at least this many sols passed
     },
 
     // Infrastructure module configuration
     infrastructure: {
         maxLevel: 499,
-        
-        // Rocket Lab - allows docking more rockets
-        rocketLab: {
-            workersBase: 1,
-            workersPerLevelDivisor: 10,
-            workersPerLevelMultiplier: 2,
-            benefitLevelDivisor: 10,
-            benefitBaseValue: 1,
-        },
-
-        // Storeroom - increases storage capacity
-        storeroom: {
-            baseCapacity: 200,
-            capacityScalingFactor: 1.2,
-            workersBase: 1,
-            workersPerLevelDivisor: 10,
-            workersPerLevelMultiplier: 2,
-        },
+
+        // Workers every infrastructure module needs. Benefits are defined per type in models/infrastructure.ts
+        workersBase: 1,
+        workersPerLevelDivisor: 10,
+        workersPerLevelMultiplier: 2,
+    },
+
+    // Colony storage, split into one part per storage class (see StorageClass in models/good.ts)
+    storage: {
+        // Share of a colony's storage every class gets, infrastructure adds to single classes
+        classShares: { bulk: 0.45, liquid: 0.2, gas: 0.15, cryogenic: 0.1, fragile: 0.1 } as Record<string, number>,
+        // Capacity every class has at least, enough for the Fuel, O2 and electronics of a colony's first rocket
+        classMinimums: { bulk: 50, liquid: 50, gas: 60, cryogenic: 60, fragile: 40 } as Record<string, number>,
+        lossLogLength: 50,          // Storage losses kept in the loss report
+        overflowSellDiscount: 0.5,  // Share of the local price the SELL overflow policy gets
+    },
+
+    // Colony power grid. Generators are defined per type in models/infrastructure.ts
+    power: {
+        baseSupply: 30,         // kW every colony's core supplies around the clock
+        drawBase: 4,            // kW a module draws at level 1
+        drawPerLevel: 1,        // kW more per level above 1
+        // Goods a fuel cell burns per kW it supplies for a sol (Fuel, O2)
+        fuelCellInputsPerKw: [
+            { goodId: 3, quantity: 0.02 },
+            { goodId: 7, quantity: 0.04 },
+        ],
+    },
+
+    // Company level: experience from sales, exploration and investments
+    company: {
+        xpBase: 1000,               // Experience from level 1 to level 2
+        xpGrowth: 1.5,              // Factor on the experience needed per level
+        xpPerCreditEarned: 0.1,     // Experience per credit earned by selling goods
+        xpPerCreditInvested: 0.2,   // Experience per credit spent on upgrades and new modules
+        xpPerColonyFounded: 2500,   // Experience for every colony founded by exploration
+    },
+
+    // Exploration of new locations
+    exploration: {
+        basePrice: 100_000,  // Price of the first exploration
+        priceGrowth: 4,      // Each colony multiplies the price of the next exploration
+    },
+
+    // Rocket travel configuration
+    rocket: {
+        dryMass: 200,                  // Tonnes of an empty rocket, each unit of cargo weighs one tonne
+        speedPerLevel: 0.03,           // Travel speed gained per level above 1
+        fuelMultiplierPerLevel: 0.97,  // Fuel burn factor applied per level above 1
+        minFuelMultiplier: 0.3,        // Upgrades can not cut fuel burn below this share
     },
 
     // Production module configuration
@@ -37,10 +79,79 @@ export const CONFIG = {
         workersPerProductionUnitDivisor: 10,
     },
 
+    // Demolishing, retooling and moving colony modules
+    modules: {
+        demolishRefundShare: 0.5,   // Share of its upgrade costs a demolished module pays back
+        retoolLevelPenalty: 0.5,    // Share of its levels above 1 a production module loses when retooled
+        packedMassBase: 20,         // Tonnes of cargo a packed level 1 module takes
+        packedMassPerLevel: 2,      // Tonnes more per level above 1
+    },
+
+    // Colony population configuration
+    population: {
+        initial: 10,            // Colonists in a newly founded colony
+        minimum: 5,             // Skeleton crew that stays even when supplies run out
+        housingBase: 20,        // Housing at colony level 1
+        housingPerLevel: 5,     // Additional housing per colony level
+        growthRatePerSol: 0.1,  // Share of free housing filled per sol when fully supplied
+        declineRatePerSol: 0.1, // Share of colonists leaving per sol at zero supply
+        startingSupplySols: 10, // Sols of upkeep a newly founded off-Earth colony starts with
+        // Goods consumed per colonist per sol (Food, Water, O2)
+        upkeepPerColonist: [
+            { goodId: 1, quantity: 0.05 },
+            { goodId: 2, quantity: 0.1 },
+            { goodId: 7, quantity: 0.05 },
+        ],
+    },
+
+    // Market price model
+    market: {
+        depthValue: 20000,      // Credits of sales that halve a good's sell price on Earth
+        recoveryPerSol: 0.2,    // Share of the selling and buying pressure the market absorbs per sol
+        volatility: 0.03,       // Maximum random price drift per sol
+        meanReversion: 0.1,     // Pull of the drift back toward the base price per sol
+        minDrift: 0.6,
+        maxDrift: 1.5,
+        historyLength: 30,      // Sols of price history kept for the sparkline
+        // Local price factors for off-Earth markets, keyed by location type.
+        // Category factors apply to every good of the category, good factors (by id) override them.
+        local: {
+            "Moon": {
+                depthFactor: 0.25,
+                categories: { Food: 2, Electronics: 1.5, Fuel: 3, ISRU: 0.8 },
+                goods: { 2: 3.5, 10: 0.5, 12: 0.7 },
+            },
+            "Mars": {
+                depthFactor: 0.2,
+                categories: { Food: 1.8, Electronics: 2.5, Fuel: 4, Clothing: 2, Furniture: 2 },
+                goods: { 2: 1.5, 11: 0.6, 16: 0.6 },
+            },
+            "Space Station": {
+                depthFactor: 0.15,
+                categories: { Food: 2.5, Fuel: 3, Electronics: 1.5, Science: 0.8 },
+                goods: { 2: 3, 7: 3, 15: 0.6 },
+            },
+        } as Record<string, { depthFactor: number; categories: Record<string, number>; goods: Record<number, number> }>,
+    },
+
+    // Random events at the end of a sol
+    randomEvents: {
+        chancePerSol: 0.1,      // Chance that a new event starts at the end of a sol
+        maxActive: 3,           // No new events while this many are running
+        historyLength: 50,      // Past events kept in the log
+    },
+
+    // Rolling backups of every save slot
+    saves: {
+        backupCount: 5,                 // Backups kept per slot, the oldest is replaced
+        backupIntervalMs: 5 * 60_000,   // Minimum time between two backups of a slot
+    },
+
     // Good/commodity configuration
     goods: {
         defaultBuyPrice: 100,
         defaultSellPrice: 50,
         defaultProductionPerSol: 1,
+        defaultIcon: "inventory_2",
     },
 } as const;
@@ -597,6 +597,41 @@ export function createModuleCard(
     return div({ classes, children });
 }
 
+/**
+ * Create a small inline SVG line chart of a series of values
+ */
+export function sparkline(
+    values: number[],
+    additionalClasses?: string[],
+    width: number = 100,
+    height: number = 24
+): SVGSVGElement {
+    const svgNs = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(svgNs, 'svg');
+    svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+    svg.setAttribute('preserveAspectRatio', 'none');
+    svg.classList.add('sparkline', ...(additionalClasses || []));
+
+    if (values.length < 2) return svg;
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+    const points = values.map((value, index) => {
+        const x = (index / (values.length - 1)) * width;
+        const y = height - ((value - min) / range) * height;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    });
+
+    const line = document.createElementNS(svgNs, 'polyline');
+    line.setAttribute('points', points.join(' '));
+    line.setAttribute('fill', 'none');
+    line.setAttribute('vector-effect', 'non-scaling-stroke');
+    svg.appendChild(line);
+
+    return svg;
+}
+
 /**
  * Create a notification/toast message
  */
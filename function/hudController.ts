@@ -1,9 +1,10 @@
 /**
  * HUD (Heads-Up Display) Controller
- * Manages the header display including money counter and settings button
+ * Manages the header display including money counter, sol display, speed controls and settings button
  */
 
 import * as GUI from './gui';
+import { CONFIG } from './config';
 import type { GameSession } from './models/sessionModel';
 import { modalManager } from './modalManager';
 
@@ -13,6 +14,8 @@ export class HUDController {
     private companyNameDisplay: HTMLElement | null;
     private solCounterDisplay: HTMLHeadingElement | null;
     private solProgressFill: HTMLElement | null;
+    private speedButtons: Map<number, HTMLButtonElement> = new Map();
+    private speedChangeCallback?: (speed: number) => void;
 
     constructor() {
         this.moneyCounter = GUI.query<HTMLElement>('.money-counter');
@@ -33,9 +36,33 @@ export class HUDController {
             };
         }
 
+        this.createSpeedControls();
+
         this.initialize();
     }
 
+    /**
+     * Build the pause / speed multiplier buttons next to the sol display
+     */
+    private createSpeedControls(): void {
+        const solInfo = GUI.query<HTMLElement>('.sol-info');
+        if (!solInfo) return;
+
+        const controls = GUI.div({ classes: ['speed-controls'] });
+        CONFIG.game.speeds.forEach(speed => {
+            const btn = GUI.button({
+                classes: ['btn', 'btn-speed'],
+                children: speed === 0 ? [GUI.materialIcon('pause')] : [],
+                textContent: speed === 0 ? undefined : `${speed}x`,
+                onClick: () => this.speedChangeCallback?.(speed)
+            });
+            this.speedButtons.set(speed, btn);
+            controls.appendChild(btn);
+        });
+
+        solInfo.appendChild(controls);
+    }
+
     private initialize(): void {
         if (!this.moneyCounter) {
             console.warn('Money counter element not found in DOM');
@@ -53,6 +80,7 @@ export class HUDController {
         this.updateMoneyDisplay(session.company.getMoney());
         this.updateCompanyName(session.company.name);
         this.updateSolDisplay(session.getSolData());
+        this.updateSpeedDisplay(session.gameSpeed);
     }
 
     /**
@@ -74,6 +102,22 @@ export class HUDController {
         }
     }
 
+    /**
+     * Highlight the button of the active game speed
+     */
+    updateSpeedDisplay(speed: number): void {
+        this.speedButtons.forEach((btn, buttonSpeed) => {
+            GUI.toggleClass(btn, 'active', buttonSpeed === speed);
+        });
+    }
+
+    /**
+     * Register the handler invoked when the player picks a game speed
+     */
+    onSpeedChange(callback: (speed: number) => void): void {
+        this.speedChangeCallback = callback;
+    }
+
     /**
      * Update the company name display
      */
@@ -3,19 +3,24 @@
  * Integrates all game systems and manages the game loop
  */
 
-import { GameManager } from './app';
-import { SaveSystem } from './persistence/saveSystem';
+import { GameManager, type OfflineReport } from './app';
+import { CONFIG } from './config';
+import { SaveSystem, type SaveImport } from './persistence/saveSystem';
 import { hudController } from './hudController';
 import { navigationController } from './navigationController';
 import { modalManager, ModalType } from './modalManager';
 import { GoodsRegistry } from './models/goodsRegistry';
+import { StorageClass } from './models/good';
 import { Rocket } from './models/storage';
-import { InfrastructureType } from './models/company';
+import type { Colony, Module, ProductionModule } from './models/company';
+import { RandomEvents, RandomEventRegistry } from './models/randomEvents';
 import { TutorialManager } from './tutorialManager';
+import type { GameSession } from './models/sessionModel';
 import * as GUI from './gui';
 
 // Initialize core systems
 const saveSystem = new SaveSystem();
+let activeSlot = saveSystem.getActiveSlot();
 let gameManager: GameManager;
 let tutorialManager: TutorialManager;
 let isRunning = false;
@@ -29,29 +34,51 @@ async function initialize(): Promise<void> {
     try {
         console.log('[Mars Inc] Initializing...');
 
-        // Try to load saved game
-        const savedSession = await saveSystem.load();
+        // Try to load saved game. A damaged save is left alone: the game starts over in a new slot
+        // and the recovery screen offers the backups of the damaged one.
+        let savedSession: GameSession | null = null;
+        let damaged: { slot: string; error: unknown } | null = null;
+        try {
+            savedSession = await saveSystem.load(activeSlot);
+        } catch (error) {
+            console.error('[Mars Inc] Save could not be loaded:', error);
+            damaged = { slot: activeSlot, error };
+            activeSlot = saveSystem.createSlotId();
+            saveSystem.setActiveSlot(activeSlot);
+        }
 
+        let offlineReport: OfflineReport | null = null;
         if (savedSession) {
             gameManager = new GameManager(savedSession);
+            setupGameEventHandlers();
+            offlineReport = catchUpOfflineProgress(savedSession);
             hudController.showSuccess('Game loaded successfully!');
         } else {
             // Create new game
             gameManager = new GameManager();
+            setupGameEventHandlers();
             hudController.showSuccess('Welcome to Mars Inc!');
 
             // Save initial state
-            await saveSystem.save(gameManager.getSession());
+            await saveSystem.save(gameManager.getSession(), activeSlot);
         }
 
         // Initialize modal manager with goods registry
         modalManager.setGoodsRegistry(GoodsRegistry);
+        navigationController.setGameManager(gameManager);
 
         // Setup tutorial manager
         tutorialManager = new TutorialManager(gameManager);
 
         // Setup modal upgrade handlers
         setupModalHandlers();
+        await refreshSaveSlots();
+
+        // Game speed controls in the HUD
+        hudController.onSpeedChange((speed) => {
+            gameManager.setSpeed(speed);
+            hudController.updateSpeedDisplay(gameManager.getSpeed());
+        });
 
         // Initial UI update (full render)
         updateUI();
@@ -60,6 +87,14 @@ async function initialize(): Promise<void> {
         isRunning = true;
         lastUpdateTime = Date.now();
         gameLoop();
+
+        if (offlineReport) {
+            modalManager.showOfflineReport(offlineReport);
+        }
+
+        if (damaged) {
+            await showRecovery(damaged.slot, damaged.error);
+        }
         
         // Start tutorial if needed (new game or previously active)
         if (!gameManager.session.tutorialCompleted) {
@@ -74,6 +109,82 @@ async function initialize(): Promise<void> {
     }
 }
 
+/**
+ * Connect the simulation's domain events to the HUD.
+ * Notifications are suppressed while offline progress is replayed; the summary covers those.
+ */
+function setupGameEventHandlers(): void {
+    const events = gameManager.events;
+    const notifyOverflow = GUI.throttle((message: string) => hudController.showToast(message, 3000), 60_000);
+
+    events.on('saleCompleted', ({ rocket, earned, sold }) => {
+        // Sales from the market view update it directly
+        if (gameManager.catchingUp || !rocket) return;
+        const unitsSold = sold.reduce((total, sale) => total + sale.quantity, 0);
+        const average = unitsSold > 0 ? ` (avg ${GUI.formatMoney(earned / unitsSold)}/unit)` : '';
+        hudController.showToast(`${rocket.name} earned ${GUI.formatMoney(earned)}${average}!`, 3000);
+    });
+
+    events.on('routeIssue', ({ rocket, reason, stopped }) => {
+        if (gameManager.catchingUp) return;
+        hudController.showToast(`${rocket.name}: ${reason}${stopped ? ', route stopped' : ''}`, 3000);
+    });
+
+    events.on('travelIssue', ({ rocket, reason }) => {
+        if (gameManager.catchingUp) return;
+        hudController.showToast(`${rocket.name}: ${reason}`, 3000);
+    });
+
+    events.on('researchCompleted', ({ technology }) => {
+        if (gameManager.catchingUp) return;
+        hudController.showSuccess(`Research complete: ${technology.name}`);
+    });
+
+    events.on('companyLevelUp', ({ level, milestones }) => {
+        if (gameManager.catchingUp) return;
+        const unlocked = milestones.map(m => m.name).join(', ');
+        hudController.showSuccess(`Company reached level ${level}!${unlocked ? ` Unlocked: ${unlocked}` : ''}`);
+    });
+
+    // Events that need a decision wait in the home view while catching up
+    events.on('randomEventStarted', ({ event }) => {
+        if (gameManager.catchingUp) return;
+        const definition = RandomEventRegistry.get(event.definitionId);
+        if (definition?.options?.length) {
+            modalManager.showRandomEvent(event);
+        } else {
+            const goodName = event.goodId !== null ? GoodsRegistry.get(event.goodId)?.name : undefined;
+            hudController.showToast(`${definition?.name}: ${RandomEvents.describe(event, goodName)}`, 5000);
+        }
+    });
+
+    events.on('colonyFounded', ({ colony }) => {
+        if (gameManager.catchingUp) return;
+        hudController.showSuccess(`New colony established: ${colony.name}`);
+    });
+
+    // Losses are kept in the colony's loss report, the toast only points at it
+    events.on('storageOverflow', ({ colony, goodId }) => {
+        if (gameManager.catchingUp) return;
+        const good = GoodsRegistry.get(goodId);
+        const storage = good ? StorageClass.describe(good.storageClass) : 'Storage';
+        notifyOverflow(`${colony.name}: ${storage} full, ${good?.name ?? `Good #${goodId}`} is being lost`);
+    });
+}
+
+/**
+ * Simulate the time that passed since the session was saved.
+ * Returns the report only if enough happened to be worth showing.
+ */
+function catchUpOfflineProgress(session: GameSession): OfflineReport | null {
+    if (session.lastSavedAt === null) return null;
+
+    const report = gameManager.simulateOfflineProgress(Date.now() - session.lastSavedAt);
+    console.log(`[Mars Inc] Simulated ${report.solsSimulated.toFixed(1)} sols of offline progress`);
+
+    return report.solsSimulated >= CONFIG.offline.minSolsForReport ? report : null;
+}
+
 /**
  * Setup modal upgrade handlers
  */
@@ -88,6 +199,7 @@ function setupModalHandlers(): void {
             rocket.incrementLevel();
             hudController.animateMoneyChange(oldMoney, company.getMoney());
             hudController.showSuccess('Rocket upgraded!');
+            gameManager.awardXp(cost * CONFIG.company.xpPerCreditInvested);
             modalManager.update(ModalType.ROCKET, rocket);
             updateUI(); // Full UI update after upgrade
         } else {
@@ -105,6 +217,7 @@ function setupModalHandlers(): void {
             colony.incrementLevel();
             hudController.animateMoneyChange(oldMoney, company.getMoney());
             hudController.showSuccess('Colony upgraded!');
+            gameManager.awardXp(cost * CONFIG.company.xpPerCreditInvested);
             modalManager.update(ModalType.COLONY, colony);
             updateUI(); // Full UI update after upgrade
         } else {
@@ -122,6 +235,7 @@ function setupModalHandlers(): void {
             module.incrementLevel();
             hudController.animateMoneyChange(oldMoney, company.getMoney());
             hudController.showSuccess('Module upgraded!');
+            gameManager.awardXp(cost * CONFIG.company.xpPerCreditInvested);
             modalManager.updateModalWithStoredData(ModalType.MODULE);
             updateUI(); // Full UI update after upgrade
         } else {
@@ -131,8 +245,22 @@ function setupModalHandlers(): void {
 
     // Handle settings actions
     modalManager.onSettingsAction((action, data) => {
-        if (action === 'new-game') {
-            newGame();
+        if (action === 'save-create') {
+            newGame(String(data || 'Mars Inc.'));
+        } else if (action === 'save-load') {
+            switchSlot(String(data));
+        } else if (action === 'save-duplicate') {
+            duplicateSlot(String(data));
+        } else if (action === 'save-rename') {
+            renameSlot(data.slot, data.name);
+        } else if (action === 'save-delete') {
+            deleteSlot(String(data));
+        } else if (action === 'save-export') {
+            exportGame();
+        } else if (action === 'save-import-check') {
+            checkImport(String(data ?? ''));
+        } else if (action === 'save-import') {
+            importGame(data);
         } else if (action === 'cheat-money') {
             const amount = Number(data);
             const company = gameManager.getSession().company;
@@ -147,11 +275,19 @@ function setupModalHandlers(): void {
     // Handle module building
     modalManager.onBuildModule((colony, module, cost) => {
         const company = gameManager.getSession().company;
+        if (company.getMoney() < cost) {
+            hudController.showError('Not enough credits!');
+            return false;
+        }
+        if (!colony.addColonyModule(module)) {
+            hudController.showError('This module can not be built here yet!');
+            return false;
+        }
         if (company.deductMoney(cost)) {
             const oldMoney = company.getMoney() + cost;
-            colony.addColonyModule(module);
             hudController.animateMoneyChange(oldMoney, company.getMoney());
             hudController.showSuccess('Module constructed!');
+            gameManager.awardXp(cost * CONFIG.company.xpPerCreditInvested);
             updateUI(); // Full UI update
             return true;
         } else {
@@ -160,11 +296,88 @@ function setupModalHandlers(): void {
         }
     });
 
+    // Handle demolishing, retooling and moving modules
+    modalManager.onModuleAction((action, data) => {
+        const session = gameManager.getSession();
+        const refreshColony = (colony: Colony) => {
+            if (modalManager.isOpen(ModalType.COLONY)) modalManager.update(ModalType.COLONY, colony);
+            updateUI();
+        };
+
+        if (action === 'demolish') {
+            const { colony, module } = data as { colony: Colony; module: Module };
+            const refund = module.getDemolishRefund();
+            const demolish = () => {
+                const oldMoney = session.company.getMoney();
+                if (gameManager.demolishModule(colony, module) === null) return false;
+                hudController.animateMoneyChange(oldMoney, session.company.getMoney());
+                hudController.showSuccess('Module demolished!');
+                modalManager.close(ModalType.MODULE);
+                refreshColony(colony);
+                return true;
+            };
+            modalManager.showChoice(
+                `Demolish the ${module.getModuleName()} module? You get ${GUI.formatMoney(refund)} back and its slot is freed.`,
+                [{ label: 'Demolish', onSelect: demolish }, { label: 'Cancel', onSelect: () => true }]
+            );
+        } else if (action === 'retool') {
+            const { colony, module, goodId } = data as { colony: Colony; module: ProductionModule; goodId: number };
+            const goodName = GoodsRegistry.get(goodId)?.name ?? `Good #${goodId}`;
+            const retool = () => {
+                if (!colony.retoolModule(module, goodId)) {
+                    hudController.showError(`${goodName} can not be produced here!`);
+                    return false;
+                }
+                hudController.showSuccess(`Module retooled to ${goodName}!`);
+                modalManager.updateModalWithStoredData(ModalType.MODULE);
+                refreshColony(colony);
+                return true;
+            };
+            modalManager.showChoice(
+                `Retool the ${module.getModuleName()} module to ${goodName}? It drops from level ${module.getLevel()} to level ${module.getRetooledLevel()}.`,
+                [{ label: 'Retool', onSelect: retool }, { label: 'Cancel', onSelect: () => true }]
+            );
+        } else if (action === 'pack') {
+            const { colony, module } = data as { colony: Colony; module: Module };
+            const rockets = session.rockets.filter(rocket => colony.canPackModuleInto(module, rocket));
+            if (rockets.length === 0) {
+                hudController.showError(`No docked rocket has ${module.getPackedMass()} t of room!`);
+                return;
+            }
+            const pack = (rocket: Rocket) => {
+                if (!gameManager.packModule(colony, module, rocket)) return false;
+                hudController.showSuccess(`${module.getModuleName()} packed into ${rocket.name}!`);
+                modalManager.close(ModalType.MODULE);
+                refreshColony(colony);
+                return true;
+            };
+            modalManager.showChoice(
+                `Pack the ${module.getModuleName()} module into which rocket? It frees its slot here and can be assembled at another colony.`,
+                [...rockets.map(rocket => ({ label: rocket.name, onSelect: () => pack(rocket) })), { label: 'Cancel', onSelect: () => true }]
+            );
+        } else if (action === 'unpack') {
+            const { rocket, index } = data as { rocket: Rocket; index: number };
+            const colony = session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
+            const packed = rocket.packedModules[index];
+            if (!packed) return;
+            if (!colony) {
+                hudController.showError('There is no colony here!');
+                return;
+            }
+            if (!colony.unpackModule(rocket, index)) {
+                hudController.showError(`The ${packed.name} module can not be assembled at ${colony.name}!`);
+                return;
+            }
+            hudController.showSuccess(`${packed.name} assembled at ${colony.name}!`);
+            modalManager.update(ModalType.ROCKET, rocket);
+            refreshColony(colony);
+        }
+    });
+
     // Handle rocket building
     modalManager.onBuildRocket((colony) => {
          // Check Capacity
-        const rocketLab = colony.getInfrastructureModules().find(m => m.getModuleIdentifier() === InfrastructureType.ROCKET_LAB);
-        if (!rocketLab) {
+        if (colony.getRocketLabs().length === 0) {
             hudController.showError('Rocket Lab required!');
             return false;
         }
@@ -172,7 +385,7 @@ function setupModalHandlers(): void {
         // Count rockets at this colony
         const existingRockets = gameManager.getSession().rockets.filter(r => r.getLocation().getId() === colony.locationId.getId()).length;
         
-        const capacity = rocketLab.getBenefitValue();
+        const capacity = colony.getRocketCapacity();
         if (existingRockets >= capacity) {
              hudController.showError('Limit reached!');
              return false;
@@ -219,11 +432,11 @@ function setupModalHandlers(): void {
     });
 
     // Handle exploration missions
-    modalManager.onStartExploration((rocket, targetType) => {
+    modalManager.onStartExploration((rocket, targetType, preference) => {
         const company = gameManager.getSession().company;
         const oldMoney = company.getMoney();
 
-        const result = gameManager.startExploration(rocket, targetType);
+        const result = gameManager.startExploration(rocket, targetType, preference);
         if (!result.ok) {
             hudController.showError(result.message ?? 'Exploration failed');
             return false;
@@ -235,9 +448,25 @@ function setupModalHandlers(): void {
         return true;
     });
 
+    // Handle decisions on random events
+    modalManager.onChooseEventOption((event, optionId) => {
+        const company = gameManager.getSession().company;
+        const oldMoney = company.getMoney();
+
+        const result = gameManager.chooseRandomEventOption(event.id, optionId);
+        if (!result.ok) {
+            hudController.showError(result.message ?? 'Choice failed');
+            return false;
+        }
+
+        hudController.animateMoneyChange(oldMoney, company.getMoney());
+        updateUI();
+        return true;
+    });
+
     // Handle travel between colonies
-    modalManager.onStartTravel((rocket, targetType) => {
-        const success = gameManager.startTravel(rocket, targetType);
+    modalManager.onStartTravel((rocket, targetType, preference) => {
+        const success = gameManager.startTravel(rocket, targetType, preference);
         if (!success) {
             hudController.showError('Travel failed');
             return false;
@@ -247,6 +476,20 @@ function setupModalHandlers(): void {
         updateUI();
         return true;
     });
+
+    // Handle route editor
+    modalManager.onStartRoute((rocket, stops) => {
+        const problem = gameManager.getRouteProblem(rocket, stops);
+        if (problem) {
+            hudController.showError(problem);
+            return false;
+        }
+
+        gameManager.startRoute(rocket, stops);
+        hudController.showSuccess('Route started!');
+        updateUI();
+        return true;
+    });
 }
 
 
@@ -310,7 +553,8 @@ function setupAutoSave(): void {
     // Auto-save every 30 seconds
     autoSaveInterval = window.setInterval(async () => {
         try {
-            await saveSystem.save(gameManager.getSession());
+            await saveSystem.save(gameManager.getSession(), activeSlot);
+            await refreshSaveSlots();
             console.log('Game auto-saved');
         } catch (error) {
             console.error('Auto-save failed:', error);
@@ -323,7 +567,8 @@ function setupAutoSave(): void {
  */
 async function saveGame(): Promise<void> {
     try {
-        await saveSystem.save(gameManager.getSession());
+        await saveSystem.save(gameManager.getSession(), activeSlot);
+        await refreshSaveSlots();
         hudController.showSuccess('Game saved!');
     } catch (error) {
         console.error('Save failed:', error);
@@ -334,34 +579,199 @@ async function saveGame(): Promise<void> {
 /**
  * Manual load
  */
-async function loadGame(): Promise<void> {
+async function loadGame(slot: string = activeSlot): Promise<void> {
     try {
-        const session = await saveSystem.load();
+        const session = await saveSystem.load(slot);
         if (session) {
             gameManager.setSession(session);
+            activeSlot = slot;
+            saveSystem.setActiveSlot(slot);
+            await refreshSaveSlots();
+            const report = catchUpOfflineProgress(session);
             hudController.showSuccess('Game loaded!');
             updateUI();
+            if (report) {
+                modalManager.showOfflineReport(report);
+            }
         } else {
             hudController.showError('No saved game found');
         }
     } catch (error) {
         console.error('Load failed:', error);
         hudController.showError('Failed to load game');
+        await showRecovery(slot, error);
     }
 }
 
 /**
- * Reset game
+ * Start a new game in a new slot. The current game stays in its own slot.
  */
-async function newGame(): Promise<void> {
-    if (confirm('Start a new game? This will overwrite your current progress.')) {
-        gameManager.setSession(gameManager.createNewSession('Mars Inc.'));
-        await saveSystem.save(gameManager.getSession());
+async function newGame(companyName: string = 'Mars Inc.'): Promise<void> {
+    try {
+        await saveSystem.save(gameManager.getSession(), activeSlot);
+        gameManager.setSession(gameManager.createNewSession(companyName));
+        activeSlot = saveSystem.createSlotId();
+        saveSystem.setActiveSlot(activeSlot);
+        await saveSystem.save(gameManager.getSession(), activeSlot);
+        await refreshSaveSlots();
         hudController.showSuccess('New game started!');
         updateUI();
+    } catch (error) {
+        console.error('New game failed:', error);
+        hudController.showError('Failed to start a new game');
     }
 }
 
+/**
+ * Save the current game, then continue the game of another slot
+ */
+async function switchSlot(slot: string): Promise<void> {
+    if (slot === activeSlot) return;
+    try {
+        await saveSystem.save(gameManager.getSession(), activeSlot);
+    } catch (error) {
+        console.error('Save failed:', error);
+        hudController.showError('Failed to save the current game');
+        return;
+    }
+    await loadGame(slot);
+}
+
+async function duplicateSlot(slot: string): Promise<void> {
+    try {
+        // Copy what is on screen, not the last autosave
+        if (slot === activeSlot) {
+            await saveSystem.save(gameManager.getSession(), activeSlot);
+        }
+        const copy = await saveSystem.duplicate(slot);
+        if (copy) {
+            hudController.showSuccess('Save duplicated!');
+        } else {
+            hudController.showError('Save not found');
+        }
+        await refreshSaveSlots();
+    } catch (error) {
+        console.error('Duplicate failed:', error);
+        hudController.showError('Failed to duplicate save');
+    }
+}
+
+async function renameSlot(slot: string, name: string): Promise<void> {
+    try {
+        if (await saveSystem.rename(slot, name)) {
+            hudController.showSuccess('Save renamed!');
+        }
+        await refreshSaveSlots();
+    } catch (error) {
+        console.error('Rename failed:', error);
+        hudController.showError('Failed to rename save');
+    }
+}
+
+async function deleteSlot(slot: string): Promise<void> {
+    if (slot === activeSlot) {
+        hudController.showError('Cannot delete the game in progress');
+        return;
+    }
+    try {
+        await saveSystem.clear(slot);
+        hudController.showSuccess('Save deleted');
+        await refreshSaveSlots();
+    } catch (error) {
+        console.error('Delete failed:', error);
+        hudController.showError('Failed to delete save');
+    }
+}
+
+/**
+ * Download the current game as a save file
+ */
+async function exportGame(): Promise<void> {
+    try {
+        const session = gameManager.getSession();
+        const text = await saveSystem.exportSave(session);
+        const fileName = `${session.company.name.replace(/[^a-z0-9]+/gi, '-')}-sol-${session.currentSol}.marsinc`;
+        const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+        const link = GUI.createElement('a', { attributes: { href: url, download: fileName } });
+        link.click();
+        URL.revokeObjectURL(url);
+        hudController.showSuccess('Game exported!');
+    } catch (error) {
+        console.error('Export failed:', error);
+        hudController.showError('Failed to export game');
+    }
+}
+
+/**
+ * Read a save file for the import dialog, showing its contents or what is wrong with it
+ */
+async function checkImport(text: string): Promise<void> {
+    if (!text.trim()) {
+        modalManager.showSaveImportResult({ preview: null, error: 'Paste a save or choose a file first.' });
+        return;
+    }
+    try {
+        modalManager.showSaveImportResult({ preview: await saveSystem.readImport(text), error: null });
+    } catch (error) {
+        modalManager.showSaveImportResult({ preview: null, error: error instanceof Error ? error.message : String(error) });
+    }
+}
+
+/**
+ * Store a checked save file in a new slot and continue playing it
+ */
+async function importGame(save: SaveImport): Promise<void> {
+    try {
+        const slot = await saveSystem.importSave(save);
+        modalManager.close(ModalType.SAVE_IMPORT);
+        await switchSlot(slot);
+    } catch (error) {
+        console.error('Import failed:', error);
+        hudController.showError('Failed to import game');
+    }
+}
+
+/**
+ * Offer the backups of a slot whose save can't be loaded
+ */
+async function showRecovery(slot: string, error: unknown): Promise<void> {
+    try {
+        modalManager.showRecovery({
+            error: error instanceof Error ? error.message : String(error),
+            backups: await saveSystem.listBackups(slot),
+            onRestore: restoreBackup
+        });
+    } catch (listError) {
+        console.error('Listing backups failed:', listError);
+    }
+}
+
+/**
+ * Put a backup in place of its damaged slot and continue playing it
+ */
+async function restoreBackup(backupSlot: string): Promise<void> {
+    try {
+        const slot = await saveSystem.restoreBackup(backupSlot);
+        if (!slot) {
+            hudController.showError('Backup not found');
+            return;
+        }
+        modalManager.close(ModalType.RECOVERY);
+        hudController.showSuccess('Backup restored!');
+        await switchSlot(slot);
+    } catch (error) {
+        console.error('Restore failed:', error);
+        hudController.showError('Failed to restore backup');
+    }
+}
+
+/**
+ * Hand the current list of saves to the save manager in the settings
+ */
+async function refreshSaveSlots(): Promise<void> {
+    modalManager.setSaveSlots(await saveSystem.listSlots(), activeSlot);
+}
+
 /**
  * Setup keyboard shortcuts
  */
@@ -385,9 +795,10 @@ function setupKeyboardShortcuts(): void {
  */
 function setupVisibilityHandler(): void {
     document.addEventListener('visibilitychange', () => {
-        if (document.hidden) {
-            // Tab is hidden - optionally pause game or continue
-            console.log('Game continues in background');
+        if (document.hidden && gameManager) {
+            // Tab is hidden - save now, the page may be closed from the background
+            saveSystem.save(gameManager.getSession(), activeSlot)
+                .catch(error => console.error('Save on hide failed:', error));
         } else {
             // Tab is visible again
             console.log('Game resumed');
@@ -399,12 +810,9 @@ function setupVisibilityHandler(): void {
  * Setup window beforeunload for auto-save
  */
 function setupBeforeUnload(): void {
-    window.addEventListener('beforeunload', async (e) => {
-        try {
-            await saveSystem.save(gameManager.getSession());
-        } catch (error) {
-            console.error('Failed to save on exit:', error);
-        }
+    // IndexedDB writes are asynchronous and may not finish before the page is gone, the emergency save is synchronous
+    window.addEventListener('beforeunload', () => {
+        if (gameManager) saveSystem.saveEmergency(gameManager.getSession(), activeSlot);
     });
 }
 
@@ -422,6 +830,7 @@ function setupDebugCommands(): void {
         save: saveGame,
         load: loadGame,
         newGame: newGame,
+        listSaves: () => saveSystem.listSlots(),
         showModal: (type: ModalType, data?: any) => modalManager.open(type, data),
         switchView: (view: string) => navigationController.switchView(view as any)
     };
@@ -5,15 +5,21 @@
 
 import * as GUI from './gui';
 import type { Company, Colony, ProductionModule, InfrastructureModule, Module } from './models/company';
-import { ProductionModule as ProductionModuleClass, InfrastructureModule as InfrastructureModuleClass, InfrastructureType, INFRASTRUCTURE_CONFIGS } from './models/company';
-import { SpaceConnections, type Rocket } from './models/storage';
+import { ProductionModule as ProductionModuleClass, InfrastructureModule as InfrastructureModuleClass, INFRASTRUCTURE_CONFIGS, COMPANY_MILESTONES, PowerPriority, OverflowPolicy } from './models/company';
+import type { Rocket } from './models/storage';
 import type { LevelSystem } from './models/level';
 import type { StorageHolder } from './models/storage';
-import { ItemPosition } from './models/good';
+import { ItemPosition, ProductionRequirement, StorageClass, STORAGE_CLASSES, type Good } from './models/good';
 import { LocationType } from './models/location';
 import type { GameSession } from './models/sessionModel';
 import { CONFIG } from './config';
 import { GoodsRegistry } from './models/goodsRegistry';
+import type { OfflineReport } from './app';
+import type { SaveSlotSummary, SaveImport, SaveBackup } from './persistence/saveSystem';
+import { RouteAction, type RouteStop } from './models/route';
+import { Research } from './models/research';
+import { RandomEvents, RandomEventRegistry, type ActiveRandomEvent } from './models/randomEvents';
+import { planTravel, forecastLaunchWindow, TravelPreference, type TravelPlan } from './models/travelPlanner';
 
 export enum ModalType {
     NOTIFICATION = 'notification-view',
@@ -26,7 +32,12 @@ export enum ModalType {
     ROCKET_FLEET = 'rocket-fleet-view',
     TUTORIAL = 'tutorial-view',
     EXPLORATION = 'exploration-view',
-    TRAVEL = 'travel-view'
+    TRAVEL = 'travel-view',
+    ROUTE_EDITOR = 'route-editor-view',
+    OFFLINE_REPORT = 'offline-report-view',
+    COMPANY = 'company-view',
+    SAVE_IMPORT = 'save-import-view',
+    RECOVERY = 'recovery-view'
 }
 
 export interface ModalController {
@@ -37,13 +48,49 @@ export interface ModalController {
     update(type: ModalType, data: any): void;
 }
 
+type SaveImportModalData = {
+    preview: SaveImport | null;
+    error: string | null;
+};
+
+type RecoveryModalData = {
+    error: string;
+    backups: SaveBackup[];
+    onRestore: (backupSlot: string) => void;
+};
+
+type TravelModalData = {
+    rocket: Rocket;
+    session: GameSession;
+    selectedTargetType?: LocationType;
+    preference?: TravelPreference;
+};
+
+type NotificationData = {
+    message: string;
+    onConfirm?: () => void;
+    choices?: { label: string; onSelect: () => boolean }[];
+};
+
+/**
+ * Route editor state. The draft is edited in place and only handed to the game when the route is started.
+ */
+type RouteEditorData = {
+    rocket: Rocket;
+    session: GameSession;
+    draft?: RouteStop[];
+    draftRocketId?: string;
+};
+
 class ModalManager implements ModalController {
     private modals: Map<ModalType, HTMLElement>;
     private onUpgradeCallbacks: Map<ModalType, ((entity: any) => void)[]>;
     private onBuildModuleCallback: ((colony: Colony, module: Module, cost: number) => boolean) | null = null;
     private onBuildRocketCallback: ((colony: Colony) => boolean) | null = null;
-    private onStartExplorationCallback: ((rocket: Rocket, targetType: LocationType) => boolean) | null = null;
-    private onStartTravelCallback: ((rocket: Rocket, targetType: LocationType) => boolean) | null = null;
+    private onStartExplorationCallback: ((rocket: Rocket, targetType: LocationType, preference: TravelPreference) => boolean) | null = null;
+    private onStartTravelCallback: ((rocket: Rocket, targetType: LocationType, preference: TravelPreference) => boolean) | null = null;
+    private onStartRouteCallback: ((rocket: Rocket, stops: RouteStop[]) => boolean) | null = null;
+    private onChooseEventOptionCallback: ((event: ActiveRandomEvent, optionId: string) => boolean) | null = null;
     private overlay: HTMLElement | null;
     private goodsRegistry: Map<number, any> | null = null;
     private modalData: Map<ModalType, any> = new Map();
@@ -249,11 +296,22 @@ class ModalManager implements ModalController {
     }
 
     private settingsActionCallback: ((action: string, data?: any) => void) | null = null;
+    private saveSlots: SaveSlotSummary[] = [];
+    private activeSaveSlot: string = '';
 
     onSettingsAction(callback: (action: string, data?: any) => void): void {
         this.settingsActionCallback = callback;
     }
 
+    private moduleActionCallback: ((action: string, data: any) => void) | null = null;
+
+    /**
+     * Demolishing, retooling, packing and reassembling modules. The handler asks the player to confirm.
+     */
+    onModuleAction(callback: (action: string, data: any) => void): void {
+        this.moduleActionCallback = callback;
+    }
+
     onBuildModule(callback: (colony: Colony, module: Module, cost: number) => boolean): void {
         this.onBuildModuleCallback = callback;
     }
@@ -262,14 +320,22 @@ class ModalManager implements ModalController {
         this.onBuildRocketCallback = callback;
     }
 
-    onStartExploration(callback: (rocket: Rocket, targetType: LocationType) => boolean): void {
+    onStartExploration(callback: (rocket: Rocket, targetType: LocationType, preference: TravelPreference) => boolean): void {
         this.onStartExplorationCallback = callback;
     }
 
-    onStartTravel(callback: (rocket: Rocket, targetType: LocationType) => boolean): void {
+    onStartTravel(callback: (rocket: Rocket, targetType: LocationType, preference: TravelPreference) => boolean): void {
         this.onStartTravelCallback = callback;
     }
 
+    onStartRoute(callback: (rocket: Rocket, stops: RouteStop[]) => boolean): void {
+        this.onStartRouteCallback = callback;
+    }
+
+    onChooseEventOption(callback: (event: ActiveRandomEvent, optionId: string) => boolean): void {
+        this.onChooseEventOptionCallback = callback;
+    }
+
     /**
      * Update open modals incrementally if they display time-sensitive data
      */
@@ -321,6 +387,21 @@ class ModalManager implements ModalController {
             case ModalType.TRAVEL:
                 this.updateTravelModal(modal, data);
                 break;
+            case ModalType.ROUTE_EDITOR:
+                this.updateRouteEditorModal(modal, data);
+                break;
+            case ModalType.OFFLINE_REPORT:
+                this.updateOfflineReportModal(modal, data);
+                break;
+            case ModalType.COMPANY:
+                this.updateCompanyModal(modal, data);
+                break;
+            case ModalType.SAVE_IMPORT:
+                this.updateSaveImportModal(modal, data);
+                break;
+            case ModalType.RECOVERY:
+                this.updateRecoveryModal(modal, data);
+                break;
         }
     }
 
@@ -345,12 +426,22 @@ class ModalManager implements ModalController {
                 return this.createExplorationModal(data);
             case ModalType.TRAVEL:
                 return this.createTravelModal(data);
+            case ModalType.ROUTE_EDITOR:
+                return this.createRouteEditorModal(data);
+            case ModalType.OFFLINE_REPORT:
+                return this.createOfflineReportModal(data);
+            case ModalType.COMPANY:
+                return this.createCompanyModal(data);
+            case ModalType.SAVE_IMPORT:
+                return this.createSaveImportModal(data);
+            case ModalType.RECOVERY:
+                return this.createRecoveryModal(data);
             default:
                 return null;
         }
     }
 
-    private createExplorationModal(data: { rocket: Rocket; session: GameSession; selectedTargetType?: LocationType }): HTMLElement {
+    private createExplorationModal(data: TravelModalData): HTMLElement {
         const modal = GUI.section({
             classes: ['exploration-view', 'modal']
         });
@@ -369,7 +460,7 @@ class ModalManager implements ModalController {
         return modal;
     }
 
-    private updateExplorationModal(modal: HTMLElement, data: { rocket: Rocket; session: GameSession; selectedTargetType?: LocationType }): void {
+    private updateExplorationModal(modal: HTMLElement, data: TravelModalData): void {
         const content = GUI.query<HTMLElement>('.view-content', modal);
         if (!content) return;
 
@@ -383,7 +474,9 @@ class ModalManager implements ModalController {
             .filter(t => t !== LocationType.TRAVELING)
             .filter(t => t !== fromType)
             .filter(t => !colonized.has(t))
-            .filter(t => SpaceConnections.some(conn => conn.from === fromType && conn.to === t));
+            .filter(t => planTravel(rocket, fromType, t, session.getRefuelStops(), { explore: true }) !== null);
+        const targets = possibleTargets.filter(t => session.company.isLocationUnlocked(t));
+        const lockedTargets = possibleTargets.filter(t => !session.company.isLocationUnlocked(t));
 
         content.appendChild(GUI.p({
             textContent: `Rocket: ${rocket.name} (from ${rocket.getLocation().name})`,
@@ -398,7 +491,20 @@ class ModalManager implements ModalController {
             return;
         }
 
-        if (possibleTargets.length === 0) {
+        lockedTargets.forEach(t => {
+            const tech = Research.getUnlockingTechnology({ locationType: t });
+            const milestone = session.company.getUpcomingMilestones().find(m => m.rewards.unlockLocations?.includes(t));
+            const requirements = [
+                tech && !session.company.research.isCompleted(tech.id) ? `Research ${tech.name}` : null,
+                milestone ? `Company level ${milestone.level}` : null
+            ].filter(Boolean).join(', ');
+            content.appendChild(GUI.p({
+                textContent: `${t}: ${requirements}`,
+                classes: ['text-muted']
+            }));
+        });
+
+        if (targets.length === 0) {
             content.appendChild(GUI.p({
                 textContent: 'No valid exploration targets available from this location.',
                 classes: ['text-muted']
@@ -406,9 +512,9 @@ class ModalManager implements ModalController {
             return;
         }
 
-        const selectedTarget = data.selectedTargetType && possibleTargets.some(t => t === data.selectedTargetType)
+        const selectedTarget = data.selectedTargetType && targets.some(t => t === data.selectedTargetType)
             ? data.selectedTargetType
-            : possibleTargets[0];
+            : targets[0];
         data.selectedTargetType = selectedTarget;
 
         const selectWrap = GUI.div({ classes: ['row'], styles: { gap: '8px', alignItems: 'center', marginBottom: '16px' } });
@@ -417,7 +523,7 @@ class ModalManager implements ModalController {
         const select = document.createElement('select');
         select.classList.add('btn', 'btn-secondary');
         select.id = 'exploration-target-select';
-        possibleTargets.forEach(t => {
+        targets.forEach(t => {
             const option = document.createElement('option');
             option.value = t;
             option.textContent = t;
@@ -431,37 +537,32 @@ class ModalManager implements ModalController {
         selectWrap.appendChild(select);
         content.appendChild(selectWrap);
 
-        const connection = SpaceConnections.find(conn => conn.from === fromType && conn.to === selectedTarget);
-        if (!connection) {
+        // Computed for this rocket's level and current cargo; the last leg is flown there and back
+        const planOptions = { preference: data.preference, explore: true, departureSol: session.getSolTime() };
+        const plan = planTravel(rocket, fromType, selectedTarget!, session.getRefuelStops(), planOptions);
+        if (!plan) {
             content.appendChild(GUI.p({ textContent: 'No route available.', classes: ['text-muted'] }));
             return;
         }
 
-        const colonyCount = session.company.colonies.length;
-        const exponent = Math.max(0, colonyCount - 1);
-        const price = Math.floor(100_000 * Math.pow(4, exponent));
-        const fuelUnits = connection.fuelCost * 2;
-        const unlockSol = connection.travelTime * 2;
+        const price = session.company.getExplorationPrice();
+        // Spaceports at the origin save fuel on the launch
+        const launchColony = session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
+        const fuelUnits = Math.ceil(plan.legs[0]!.fuelUnits * (launchColony?.getLaunchFuelMultiplier() ?? 1));
+
+        const forecast = forecastLaunchWindow(rocket, fromType, selectedTarget!, session.getRefuelStops(), planOptions);
+        content.appendChild(this.createTravelPlanSection(plan, forecast, data, ModalType.EXPLORATION, 'Unlock time'));
 
         const tableWrap = GUI.div({ classes: ['lvl-table-wrap'] });
-        const statsTable = GUI.table({
+        tableWrap.appendChild(GUI.table({
             classes: ['lvl-table'],
             children: [
-                GUI.row([
-                    GUI.span({ textContent: 'Unlock time', classes: ['lvl-property-name'] }),
-                    GUI.span({ textContent: `${unlockSol} sol`, classes: ['lvl-property-value'] })
-                ]),
-                GUI.row([
-                    GUI.span({ textContent: 'Fuel required', classes: ['lvl-property-name'] }),
-                    GUI.span({ textContent: GUI.formatNumber(fuelUnits), classes: ['lvl-property-value'] })
-                ]),
                 GUI.row([
                     GUI.span({ textContent: 'Exploration price', classes: ['lvl-property-name'] }),
                     GUI.span({ textContent: GUI.formatMoney(price), classes: ['lvl-property-value'] })
                 ])
             ]
-        });
-        tableWrap.appendChild(statsTable);
+        }));
         content.appendChild(tableWrap);
 
         // Check if rocket is at a colony and calculate fuel availability
@@ -473,9 +574,10 @@ class ModalManager implements ModalController {
 
             if (fuelShortfall > 0) {
                 const fuelGood = GoodsRegistry.get(3)!;
-                const buyFuelCost = fuelShortfall * fuelGood.marketBuyPrice;
+                const fuelMarket = session.getMarket(originColony.locationId.getType());
+                const buyFuelCost = fuelMarket.quotePurchase(fuelGood.getId(), fuelShortfall);
                 const canAfford = session.company.getMoney() >= buyFuelCost;
-                const spaceAvailable = originColony.getCapacity() - originColony.getTotalQuantity();
+                const spaceAvailable = originColony.getFreeRoomFor(fuelGood);
                 const canStore = spaceAvailable >= fuelShortfall;
                 const canBuy = canAfford && canStore;
 
@@ -494,8 +596,8 @@ class ModalManager implements ModalController {
                     classes: ['btn', 'btn-small'],
                     textContent: `Buy Fuel (${GUI.formatMoney(buyFuelCost)})`,
                     onClick: () => {
-                        if (canBuy) {
-                            session.company.deductMoney(buyFuelCost);
+                        if (canBuy && session.company.deductMoney(buyFuelCost)) {
+                            fuelMarket.buy(fuelGood.getId(), fuelShortfall);
                             originColony.addItemPosition(new ItemPosition(fuelGood, fuelShortfall));
                             this.update(ModalType.EXPLORATION, data);
                         }
@@ -536,13 +638,87 @@ class ModalManager implements ModalController {
             textContent: 'Launch Exploration',
             onClick: () => {
                 if (!this.onStartExplorationCallback) return;
-                const ok = this.onStartExplorationCallback(rocket, data.selectedTargetType!);
+                const ok = this.onStartExplorationCallback(rocket, data.selectedTargetType!, data.preference ?? TravelPreference.FASTEST);
                 if (ok) this.close(ModalType.EXPLORATION);
             }
         }));
     }
 
-    private createTravelModal(data: { rocket: Rocket; session: GameSession; selectedTargetType?: LocationType }): HTMLElement {
+    /**
+     * Fastest/fuel-cheapest choice, the leg breakdown of a launch now and the forecast of the next launch window.
+     * Fuel for the first leg comes from the origin, later legs refuel at the colonies on the way.
+     */
+    private createTravelPlanSection(plan: TravelPlan, forecast: TravelPlan | null, data: TravelModalData, type: ModalType, durationLabel: string): HTMLElement {
+        const section = GUI.div({ classes: ['travel-plan'] });
+
+        const preferenceWrap = GUI.div({ classes: ['row'], styles: { gap: '8px', alignItems: 'center' } });
+        preferenceWrap.appendChild(GUI.span({ textContent: 'Path:', classes: ['text-secondary'] }));
+        const select = document.createElement('select');
+        select.classList.add('btn', 'btn-secondary');
+        [
+            { value: TravelPreference.FASTEST, label: 'Fastest' },
+            { value: TravelPreference.CHEAPEST, label: 'Fuel-cheapest' }
+        ].forEach(({ value, label }) => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            if (value === (data.preference ?? TravelPreference.FASTEST)) option.selected = true;
+            select.appendChild(option);
+        });
+        select.onchange = () => {
+            data.preference = select.value as TravelPreference;
+            this.update(type, data);
+        };
+        preferenceWrap.appendChild(select);
+        section.appendChild(preferenceWrap);
+
+        const rows = plan.legs.map(leg => GUI.row([
+            GUI.span({ textContent: `${leg.from} → ${leg.to}`, classes: ['lvl-property-name'] }),
+            GUI.span({
+                textContent: `${leg.travelSols.toFixed(1)} sol, ${GUI.formatNumber(leg.fuelUnits)} Fuel`,
+                classes: ['lvl-property-value']
+            })
+        ]));
+        rows.push(
+            GUI.row([
+                GUI.span({ textContent: durationLabel, classes: ['lvl-property-name'] }),
+                GUI.span({ textContent: `${plan.travelSols.toFixed(1)} sol`, classes: ['lvl-property-value'] })
+            ]),
+            GUI.row([
+                GUI.span({ textContent: 'Fuel required', classes: ['lvl-property-name'] }),
+                GUI.span({ textContent: GUI.formatNumber(plan.fuelUnits), classes: ['lvl-property-value'] })
+            ])
+        );
+
+        // A launch within the next sol counts as launching now
+        if (forecast) {
+            const wait = forecast.departureSol - plan.departureSol;
+            rows.push(GUI.row([
+                GUI.span({ textContent: 'Next launch window', classes: ['lvl-property-name'] }),
+                GUI.span({
+                    textContent: wait < 1
+                        ? 'Open now'
+                        : `In ${wait.toFixed(1)} sol: ${forecast.travelSols.toFixed(1)} sol, ${GUI.formatNumber(forecast.fuelUnits)} Fuel`,
+                    classes: ['lvl-property-value']
+                })
+            ]));
+        }
+
+        const tableWrap = GUI.div({ classes: ['lvl-table-wrap'] });
+        tableWrap.appendChild(GUI.table({ classes: ['lvl-table'], children: rows }));
+        section.appendChild(tableWrap);
+
+        if (plan.legs.length > 1) {
+            section.appendChild(GUI.p({
+                textContent: 'The rocket refuels at the colonies on the way. Fuel they are missing is bought at their local market.',
+                classes: ['text-muted']
+            }));
+        }
+
+        return section;
+    }
+
+    private createTravelModal(data: TravelModalData): HTMLElement {
         const modal = GUI.section({
             classes: ['travel-view', 'modal']
         });
@@ -561,7 +737,7 @@ class ModalManager implements ModalController {
         return modal;
     }
 
-    private updateTravelModal(modal: HTMLElement, data: { rocket: Rocket; session: GameSession; selectedTargetType?: LocationType }): void {
+    private updateTravelModal(modal: HTMLElement, data: TravelModalData): void {
         const content = GUI.query<HTMLElement>('.view-content', modal);
         if (!content) return;
 
@@ -576,9 +752,9 @@ class ModalManager implements ModalController {
             .filter(t => t !== fromType)
             .filter(t => t !== LocationType.TRAVELING);
         
-        // Filter to only those with valid connections
+        // Filter to only those the rocket can reach, possibly over several legs
         const possibleTargets = colonized.filter(t =>
-            SpaceConnections.some(conn => conn.from === fromType && conn.to === t)
+            planTravel(rocket, fromType, t, session.getRefuelStops()) !== null
         );
 
         content.appendChild(GUI.p({
@@ -627,34 +803,20 @@ class ModalManager implements ModalController {
         selectWrap.appendChild(select);
         content.appendChild(selectWrap);
 
-        const connection = SpaceConnections.find(conn => conn.from === fromType && conn.to === selectedTarget);
-        if (!connection) {
+        // Computed for this rocket's level and current cargo
+        const planOptions = { preference: data.preference, departureSol: session.getSolTime() };
+        const plan = planTravel(rocket, fromType, selectedTarget!, session.getRefuelStops(), planOptions);
+        if (!plan) {
             content.appendChild(GUI.p({ textContent: 'No route available.', classes: ['text-muted'] }));
             return;
         }
+        // Check if rocket is at a colony and calculate fuel availability; Spaceports there save fuel on the launch
+        const originColony = session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
+        const fuelUnits = Math.ceil(plan.legs[0]!.fuelUnits * (originColony?.getLaunchFuelMultiplier() ?? 1));
 
-        const fuelUnits = connection.fuelCost;
-        const travelSol = connection.travelTime;
-
-        const tableWrap = GUI.div({ classes: ['lvl-table-wrap'] });
-        const statsTable = GUI.table({
-            classes: ['lvl-table'],
-            children: [
-                GUI.row([
-                    GUI.span({ textContent: 'Travel time', classes: ['lvl-property-name'] }),
-                    GUI.span({ textContent: `${travelSol} sol`, classes: ['lvl-property-value'] })
-                ]),
-                GUI.row([
-                    GUI.span({ textContent: 'Fuel required', classes: ['lvl-property-name'] }),
-                    GUI.span({ textContent: GUI.formatNumber(fuelUnits), classes: ['lvl-property-value'] })
-                ])
-            ]
-        });
-        tableWrap.appendChild(statsTable);
-        content.appendChild(tableWrap);
+        const forecast = forecastLaunchWindow(rocket, fromType, selectedTarget!, session.getRefuelStops(), planOptions);
+        content.appendChild(this.createTravelPlanSection(plan, forecast, data, ModalType.TRAVEL, 'Travel time'));
 
-        // Check if rocket is at a colony and calculate fuel availability
-        const originColony = session.company.colonies.find(c => c.locationId.getId() === rocket.getLocation().getId());
         if (originColony) {
             const fuelItem = originColony.getItemPositions().find(i => i.good.getId() === 3);
             const currentFuel = fuelItem ? fuelItem.quantity : 0;
@@ -662,9 +824,10 @@ class ModalManager implements ModalController {
 
             if (fuelShortfall > 0) {
                 const fuelGood = GoodsRegistry.get(3)!;
-                const buyFuelCost = fuelShortfall * fuelGood.marketBuyPrice;
+                const fuelMarket = session.getMarket(originColony.locationId.getType());
+                const buyFuelCost = fuelMarket.quotePurchase(fuelGood.getId(), fuelShortfall);
                 const canAfford = session.company.getMoney() >= buyFuelCost;
-                const spaceAvailable = originColony.getCapacity() - originColony.getTotalQuantity();
+                const spaceAvailable = originColony.getFreeRoomFor(fuelGood);
                 const canStore = spaceAvailable >= fuelShortfall;
                 const canBuy = canAfford && canStore;
 
@@ -683,8 +846,8 @@ class ModalManager implements ModalController {
                     classes: ['btn', 'btn-small'],
                     textContent: `Buy Fuel (${GUI.formatMoney(buyFuelCost)})`,
                     onClick: () => {
-                        if (canBuy) {
-                            session.company.deductMoney(buyFuelCost);
+                        if (canBuy && session.company.deductMoney(buyFuelCost)) {
+                            fuelMarket.buy(fuelGood.getId(), fuelShortfall);
                             originColony.addItemPosition(new ItemPosition(fuelGood, fuelShortfall));
                             this.update(ModalType.TRAVEL, data);
                         }
@@ -725,12 +888,192 @@ class ModalManager implements ModalController {
             textContent: 'Launch Travel',
             onClick: () => {
                 if (!this.onStartTravelCallback) return;
-                const ok = this.onStartTravelCallback(rocket, data.selectedTargetType!);
+                const ok = this.onStartTravelCallback(rocket, data.selectedTargetType!, data.preference ?? TravelPreference.FASTEST);
                 if (ok) this.close(ModalType.TRAVEL);
             }
         }));
     }
 
+    private createRouteEditorModal(data: RouteEditorData): HTMLElement {
+        const modal = GUI.section({
+            classes: ['route-editor-view', 'modal']
+        });
+
+        const hotbar = GUI.createViewHotbar('Route', () => this.close(ModalType.ROUTE_EDITOR));
+        const content = GUI.createViewContent([], true);
+        const actions = GUI.div({ classes: ['modal-actions'] });
+
+        modal.appendChild(hotbar);
+        modal.appendChild(content);
+        modal.appendChild(actions);
+
+        this.setupCloseButton(modal, ModalType.ROUTE_EDITOR);
+        this.updateRouteEditorModal(modal, data);
+
+        return modal;
+    }
+
+    /**
+     * Draft stops for the editor: the rocket's current route, or a sell loop from where it is docked
+     */
+    private createRouteDraft(rocket: Rocket, session: GameSession): RouteStop[] {
+        if (rocket.route) {
+            return rocket.route.stops.map(stop => ({ colonyId: stop.colonyId, rules: stop.rules.map(rule => ({ ...rule })) }));
+        }
+
+        const colonies = session.company.colonies;
+        const docked = colonies.find(c => c.locationId.getId() === rocket.getLocation().getId()) ?? colonies[0];
+        const other = colonies.find(c => c.locationId.getType() === LocationType.EARTH && c !== docked)
+            ?? colonies.find(c => c !== docked);
+        if (!docked) return [];
+
+        const draft: RouteStop[] = [{ colonyId: docked.colonyId, rules: [{ action: RouteAction.LOAD, goodId: null }] }];
+        if (other) {
+            draft.push({ colonyId: other.colonyId, rules: [{ action: RouteAction.SELL, goodId: null }] });
+        }
+        return draft;
+    }
+
+    private updateRouteEditorModal(modal: HTMLElement, data: RouteEditorData): void {
+        const content = GUI.query<HTMLElement>('.view-content', modal);
+        if (!content) return;
+
+        GUI.clearChildren(content);
+
+        const { rocket, session } = data;
+        if (!data.draft || data.draftRocketId !== rocket.getId()) {
+            data.draft = this.createRouteDraft(rocket, session);
+            data.draftRocketId = rocket.getId();
+        }
+        const draft = data.draft;
+        const refresh = () => this.update(ModalType.ROUTE_EDITOR, data);
+
+        content.appendChild(GUI.p({
+            textContent: `Rocket: ${rocket.name}. At each stop it unloads and sells first, then loads, and flies on to the next stop. After the last stop it returns to the first.`,
+            classes: ['text-secondary']
+        }));
+
+        const createSelect = (options: { value: string; label: string; disabled?: boolean }[], selected: string, onChange: (value: string) => void) => {
+            const select = document.createElement('select');
+            select.classList.add('btn', 'btn-secondary');
+            options.forEach(({ value, label, disabled }) => {
+                const option = document.createElement('option');
+                option.value = value;
+                option.textContent = label;
+                option.disabled = disabled ?? false;
+                if (value === selected) option.selected = true;
+                select.appendChild(option);
+            });
+            select.onchange = () => onChange(select.value);
+            return select;
+        };
+
+        const colonyOptions = session.company.colonies.map(c => ({ value: c.colonyId, label: c.name }));
+        const actionOptions = Object.values(RouteAction).map(action => ({
+            value: action,
+            label: action.charAt(0).toUpperCase() + action.slice(1)
+        }));
+        const goodOptions = [
+            { value: '', label: 'All goods' },
+            ...Array.from(GoodsRegistry.values()).map(good => ({ value: String(good.getId()), label: good.name }))
+        ];
+
+        const stopsList = GUI.div({ classes: ['route-stops'] });
+        draft.forEach((stop, stopIndex) => {
+            const stopCard = GUI.div({ classes: ['route-stop'] });
+
+            const header = GUI.div({ classes: ['row', 'route-stop-header'] });
+            header.appendChild(GUI.span({ textContent: `Stop ${stopIndex + 1}`, classes: ['route-stop-title'] }));
+            header.appendChild(createSelect(colonyOptions, stop.colonyId, value => {
+                stop.colonyId = value;
+                refresh();
+            }));
+            header.appendChild(GUI.button({
+                classes: ['btn', 'btn-small', 'btn-danger'],
+                textContent: 'Remove Stop',
+                onClick: () => {
+                    draft.splice(stopIndex, 1);
+                    refresh();
+                }
+            }));
+            stopCard.appendChild(header);
+
+            stop.rules.forEach((rule, ruleIndex) => {
+                const ruleRow = GUI.div({ classes: ['row', 'route-rule'] });
+                ruleRow.appendChild(createSelect(actionOptions, rule.action, value => {
+                    rule.action = value as RouteAction;
+                    refresh();
+                }));
+                ruleRow.appendChild(createSelect(goodOptions, rule.goodId === null ? '' : String(rule.goodId), value => {
+                    rule.goodId = value === '' ? null : Number(value);
+                    refresh();
+                }));
+                ruleRow.appendChild(GUI.button({
+                    classes: ['btn', 'btn-small', 'btn-secondary'],
+                    textContent: 'Remove',
+                    onClick: () => {
+                        stop.rules.splice(ruleIndex, 1);
+                        refresh();
+                    }
+                }));
+                stopCard.appendChild(ruleRow);
+            });
+
+            stopCard.appendChild(GUI.button({
+                classes: ['btn', 'btn-small', 'btn-secondary'],
+                textContent: 'Add Rule',
+                onClick: () => {
+                    stop.rules.push({ action: RouteAction.LOAD, goodId: null });
+                    refresh();
+                }
+            }));
+
+            stopsList.appendChild(stopCard);
+        });
+        content.appendChild(stopsList);
+
+        content.appendChild(GUI.button({
+            classes: ['btn', 'btn-small', 'btn-secondary'],
+            textContent: 'Add Stop',
+            onClick: () => {
+                const lastColonyId = draft[draft.length - 1]?.colonyId;
+                const colony = session.company.colonies.find(c => c.colonyId !== lastColonyId) ?? session.company.colonies[0];
+                if (!colony) return;
+                draft.push({ colonyId: colony.colonyId, rules: [] });
+                refresh();
+            }
+        }));
+
+        let actions = GUI.query<HTMLElement>('.modal-actions', modal);
+        if (!actions) {
+            actions = GUI.div({ classes: ['modal-actions'] });
+            modal.appendChild(actions);
+        }
+        GUI.clearChildren(actions);
+
+        actions.appendChild(GUI.button({
+            classes: ['btn', 'btn-secondary'],
+            textContent: 'Cancel',
+            onClick: () => {
+                data.draft = undefined;
+                this.close(ModalType.ROUTE_EDITOR);
+            }
+        }));
+
+        actions.appendChild(GUI.button({
+            classes: ['btn', 'btn-small'],
+            textContent: rocket.route ? 'Save Route' : 'Start Route',
+            onClick: () => {
+                if (!this.onStartRouteCallback) return;
+                const ok = this.onStartRouteCallback(rocket, draft);
+                if (ok) {
+                    data.draft = undefined;
+                    this.close(ModalType.ROUTE_EDITOR);
+                }
+            }
+        }));
+    }
+
     /**
      * Create a generic LevelSystem modal with properties table and upgrade button
      */
@@ -900,6 +1243,28 @@ class ModalManager implements ModalController {
             content.push(locationDiv);
         }
 
+        if (rocket.packedModules.length > 0) {
+            content.push(GUI.heading(3, { textContent: 'Packed Modules', classes: ['section-title-spaced'] }));
+            const packedList = GUI.div({ classes: ['production-list'] });
+            rocket.packedModules.forEach((packed, index) => {
+                const assembleBtn = GUI.button({
+                    classes: ['btn', 'btn-small'],
+                    textContent: 'Assemble Here',
+                    onClick: () => this.moduleActionCallback?.('unpack', { rocket, index })
+                });
+                assembleBtn.disabled = destination !== null;
+                packedList.appendChild(GUI.div({
+                    classes: ['production-item'],
+                    children: [
+                        GUI.span({ textContent: `${packed.name} (level ${packed.module.level})`, classes: ['production-good-name'] }),
+                        GUI.span({ textContent: `${GUI.formatNumber(packed.mass)} t`, classes: ['production-amount'] }),
+                        assembleBtn
+                    ]
+                }));
+            });
+            content.push(packedList);
+        }
+
         return content;
     }
 
@@ -961,6 +1326,56 @@ class ModalManager implements ModalController {
             elements.push(productionList);
         }
 
+        // Population upkeep section
+        const upkeep = colony.getUpkeepPerSol();
+        const upkeepTitle = GUI.heading(3, { textContent: 'Upkeep per Sol' });
+        elements.push(upkeepTitle);
+        if (upkeep.length > 0) {
+            const upkeepList = GUI.div({ classes: ['production-list'] });
+            upkeep.forEach(({ goodId, quantity }) => {
+                const good = this.goodsRegistry?.get(goodId);
+                const goodName = good ? good.name : `Good #${goodId}`;
+                upkeepList.appendChild(GUI.div({
+                    classes: ['production-item'],
+                    children: [
+                        GUI.span({ textContent: goodName, classes: ['production-good-name'] }),
+                        GUI.span({ textContent: `${GUI.formatNumber(quantity)} t/sol`, classes: ['production-amount'] })
+                    ]
+                }));
+            });
+            elements.push(upkeepList);
+        } else {
+            elements.push(GUI.p({ textContent: 'Life support is provided locally.', classes: ['text-muted'] }));
+        }
+
+        elements.push(...this.createColonyStorageContent(colony));
+
+        // Power section, supply and demand themselves are in the stats table
+        const power = colony.getPowerBudget();
+        elements.push(GUI.heading(3, { textContent: 'Power' }));
+        const powerList = GUI.div({ classes: ['production-list'] });
+        const powerRows: [string, string][] = [
+            ['Solar Farms', colony.daylight ? `${GUI.formatNumber(power.solar)} kW` : 'Night'],
+            ['Fuel Cells', `${GUI.formatNumber(power.fuelCells)} kW`]
+        ];
+        powerRows.forEach(([label, value]) => {
+            powerList.appendChild(GUI.div({
+                classes: ['production-item'],
+                children: [
+                    GUI.span({ textContent: label, classes: ['production-good-name'] }),
+                    GUI.span({ textContent: value, classes: ['production-amount'] })
+                ]
+            }));
+        });
+        elements.push(powerList);
+        const brownedOut = Array.from(power.powered.values()).filter(share => share < 1).length;
+        if (brownedOut > 0) {
+            elements.push(GUI.p({
+                textContent: `Brownout: ${brownedOut} module${brownedOut === 1 ? '' : 's'} short of power. Build generators or lower the priority of less important modules.`,
+                classes: ['text-danger']
+            }));
+        }
+
         // Infrastructure modules section
         const infrastructureModules = colony.getInfrastructureModules();
         if (infrastructureModules.length > 0) {
@@ -968,8 +1383,11 @@ class ModalManager implements ModalController {
             elements.push(infraTitle);
 
             const infraGrid = GUI.div({ classes: ['module-grid', 'infrastructure-grid'] });
+            const infraStaffing = colony.getStaffing();
             infrastructureModules.forEach(module => {
                 const card = this.createInfrastructureModuleCard(module, colony);
+                card.appendChild(this.createModuleStaffingLabel(module, infraStaffing.get(module) ?? 0));
+                this.appendBrownoutLabel(card, module, colony);
                 infraGrid.appendChild(card);
             });
             elements.push(infraGrid);
@@ -984,10 +1402,18 @@ class ModalManager implements ModalController {
         const moduleCards: HTMLElement[] = [];
 
         // Show existing production modules
+        const staffing = colony.getStaffing();
         productionModules.forEach(module => {
             const good = this.goodsRegistry?.get(module.goodId);
             const goodName = good ? good.name : `Good #${module.goodId}`;
             const card = this.createProductionModuleCard(module, goodName, colony);
+            card.appendChild(this.createModuleStaffingLabel(module, staffing.get(module) ?? 0));
+            this.appendBrownoutLabel(card, module, colony);
+            const stallReason = colony.getStallReason(module.goodId);
+            if (stallReason) {
+                GUI.addClass(card, 'stalled');
+                card.appendChild(GUI.span({ classes: ['module-stall-reason'], textContent: stallReason }));
+            }
             moduleCards.push(card);
         });
 
@@ -1021,87 +1447,368 @@ class ModalManager implements ModalController {
     }
 
     /**
-     * Create a card for a production module
+     * Describe what a good is made from: one line per recipe, followed by the recipes of its inputs
      */
-    private createProductionModuleCard(module: ProductionModule, goodName: string, colony: Colony): HTMLElement {
-        const card = GUI.div({
-            classes: ['module-card', 'filled', 'clickable'],
-            children: [
-                GUI.span({
-                    classes: ['module-icon', 'material-symbols-rounded'],
-                    textContent: 'factory'
-                }),
-                GUI.span({ classes: ['module-label'], textContent: goodName }),
-                GUI.span({
-                    classes: ['module-level'],
-                    textContent: `Lv ${module.getLevel()}`
-                })
-            ]
-        });
-
-        // Make it clickable to open upgrade modal
-        console.log('[ModalManager] Card generated for production module:', { goodName, level: module.getLevel() });
+    private createRecipeChain(good: Good): HTMLElement | null {
+        if (!good.recipe) return null;
+
+        const chain = GUI.div({ classes: ['recipe-chain'] });
+        const nameOf = (goodId: number) => GoodsRegistry.get(goodId)?.name ?? `Good #${goodId}`;
+        const addStep = (current: Good, depth: number, visited: Set<number>) => {
+            if (!current.recipe || visited.has(current.getId())) return;
+            visited.add(current.getId());
+
+            const inputs = current.recipe.inputs.map(input => `${GUI.formatNumber(input.quantity)} ${nameOf(input.goodId)}`).join(' + ');
+            const byproducts = (current.recipe.byproducts ?? []).map(byproduct => ` + ${GUI.formatNumber(byproduct.quantity)} ${nameOf(byproduct.goodId)}`).join('');
+            chain.appendChild(GUI.span({
+                classes: ['recipe-step'],
+                textContent: `${inputs} → 1 ${current.name}${byproducts}`,
+                styles: { paddingLeft: `${depth * 12}px` }
+            }));
 
-        card.onclick = () => {
-            console.log('[ModalManager] Production module card clicked');
-            this.open(ModalType.MODULE, { module, colony, modalType: ModalType.MODULE });
+            current.recipe.inputs.forEach(input => {
+                const inputGood = GoodsRegistry.get(input.goodId);
+                if (inputGood) addStep(inputGood, depth + 1, visited);
+            });
         };
+        addStep(good, 0, new Set());
 
-        return card;
+        return chain;
     }
 
     /**
-     * Create a card for an infrastructure module with color coding
+     * Create the "assigned/needed workers" label of a module card, highlighted when understaffed
      */
-    private createInfrastructureModuleCard(module: InfrastructureModule, colony: Colony): HTMLElement {
-        const card = GUI.div({
-            classes: ['module-card', 'filled', 'clickable', 'infrastructure'],
-            children: [
-                GUI.span({
-                    classes: ['module-icon', 'material-symbols-rounded'],
-                    textContent: module.getIcon()
-                }),
-                GUI.span({ classes: ['module-label'], textContent: module.getModuleName() }),
-                GUI.span({
-                    classes: ['module-level'],
-                    textContent: `Lv ${module.getLevel()}`
-                })
-            ],
-            styles: {
-                borderColor: module.getColor(),
-                boxShadow: `0 0 10px ${module.getColor()}40`
-            }
+    private createModuleStaffingLabel(module: Module, assigned: number): HTMLElement {
+        const needed = module.getWorkersNeeded();
+        return GUI.span({
+            classes: assigned < needed ? ['module-staffing', 'understaffed'] : ['module-staffing'],
+            textContent: `${assigned}/${needed} workers`
         });
-
-        // Make it clickable to open upgrade modal
-        card.onclick = () => {
-            console.log('[ModalManager] Infrastructure module card clicked');
-            this.open(ModalType.MODULE, { module, colony, modalType: ModalType.MODULE });
-        };
-
-        return card;
     }
 
-    private updateNotificationModal(modal: HTMLElement, data: { message: string; onConfirm?: () => void }): void {
-        const content = GUI.query<HTMLElement>('.view-content', modal);
-        if (!content) return;
+    /**
+     * Storage of a colony by storage class with the goods of each class and their reservations, followed by the loss report
+     */
+    private createColonyStorageContent(colony: Colony): HTMLElement[] {
+        const elements: HTMLElement[] = [GUI.heading(3, { textContent: 'Storage' })];
+        const producedGoods = new Set(colony.getProductionModules().map(module => module.goodId));
+
+        STORAGE_CLASSES.forEach(storageClass => {
+            const capacity = colony.getClassCapacity(storageClass);
+            const used = colony.getClassQuantity(storageClass);
+            const classList = GUI.div({ classes: ['production-list', 'storage-class'] });
+            classList.appendChild(GUI.div({
+                classes: used >= capacity && capacity > 0 ? ['production-item', 'storage-class-full'] : ['production-item'],
+                children: [
+                    GUI.span({ textContent: StorageClass.describe(storageClass), classes: ['production-good-name'] }),
+                    GUI.span({ textContent: `${GUI.formatNumber(used)}/${GUI.formatNumber(capacity)} t`, classes: ['production-amount'] })
+                ]
+            }));
 
-        GUI.clearChildren(content);
+            // Goods of the class that are stored, reserved or produced here
+            GoodsRegistry.forEach(good => {
+                if (good.storageClass !== storageClass) return;
+                const stock = colony.getItemPositions().find(item => item.good.getId() === good.getId())?.quantity ?? 0;
+                const reserved = colony.getStorageReservation(good.getId());
+                if (stock <= 0 && reserved <= 0 && !producedGoods.has(good.getId())) return;
+
+                const reserveBtn = GUI.iconButton('lock', () => {
+                    const input = prompt(`Room to keep free for ${good.name} (t):`, String(reserved));
+                    if (input === null) return;
+                    const quantity = Number(input);
+                    if (!Number.isFinite(quantity)) return;
+                    colony.setStorageReservation(good.getId(), quantity);
+                    this.update(ModalType.COLONY, colony);
+                });
+                reserveBtn.title = 'Reserve room';
 
-        // Add message
-        content.appendChild(GUI.p({ textContent: data.message }));
+                classList.appendChild(GUI.div({
+                    classes: ['production-item', 'storage-class-good'],
+                    children: [
+                        GUI.span({ textContent: good.name, classes: ['production-good-name'] }),
+                        GUI.span({
+                            textContent: reserved > 0 ? `${GUI.formatNumber(stock)} t · ${GUI.formatNumber(reserved)} t reserved` : `${GUI.formatNumber(stock)} t`,
+                            classes: ['production-amount']
+                        }),
+                        reserveBtn
+                    ]
+                }));
+            });
+            elements.push(classList);
+        });
 
-        // Find or create modal-actions container
-        let actions = GUI.query<HTMLElement>('.modal-actions', modal);
-        if (!actions) {
-            actions = GUI.div({ classes: ['modal-actions'] });
-            modal.appendChild(actions);
-        }
-        GUI.clearChildren(actions);
+        elements.push(...this.createOverflowContent(colony));
 
-        // Create blue done button in modal-actions
-        const doneBtn = GUI.button({
-            classes: ['btn', 'btn-secondary'],
+        elements.push(GUI.heading(3, { textContent: 'Storage Losses' }));
+        const losses = colony.getStorageLosses().slice(0, 8);
+        if (losses.length === 0) {
+            elements.push(GUI.p({ textContent: 'Nothing was lost to full storage.', classes: ['text-muted'] }));
+            return elements;
+        }
+        const lossList = GUI.div({ classes: ['production-list'] });
+        losses.forEach(loss => {
+            const good = GoodsRegistry.get(loss.goodId);
+            const storage = good ? StorageClass.describe(good.storageClass) : 'Storage';
+            lossList.appendChild(GUI.div({
+                classes: ['production-item'],
+                children: [
+                    GUI.span({ textContent: `Sol ${loss.sol}: ${good?.name ?? `Good #${loss.goodId}`} (${storage} full)`, classes: ['production-good-name'] }),
+                    GUI.span({
+                        textContent: loss.earned === undefined
+                            ? `${GUI.formatNumber(loss.quantity)} t lost`
+                            : `${GUI.formatNumber(loss.quantity)} t sold for ${GUI.formatMoney(loss.earned)}`,
+                        classes: ['production-amount', 'text-danger']
+                    })
+                ]
+            }));
+        });
+        elements.push(lossList);
+        return elements;
+    }
+
+    /**
+     * Overflow policy select of a colony and what the previous sol's overflow came to
+     */
+    private createOverflowContent(colony: Colony): HTMLElement[] {
+        const elements: HTMLElement[] = [GUI.heading(3, { textContent: 'When Storage Is Full' })];
+
+        const select = document.createElement('select');
+        select.classList.add('btn', 'btn-secondary');
+        const labels: Record<OverflowPolicy, string> = {
+            [OverflowPolicy.DISCARD]: 'Discard the overflow',
+            [OverflowPolicy.SELL]: `Sell it here at ${Math.round(CONFIG.storage.overflowSellDiscount * 100)}% of the price`,
+            [OverflowPolicy.SHIP]: 'Load it into idle rockets here',
+            [OverflowPolicy.PAUSE]: 'Pause the producing modules',
+            [OverflowPolicy.DISCARD_CHEAPEST]: 'Discard cheaper goods first'
+        };
+        Object.values(OverflowPolicy).forEach(policy => {
+            const option = document.createElement('option');
+            option.value = policy;
+            option.textContent = labels[policy];
+            if (policy === colony.overflowPolicy) option.selected = true;
+            select.appendChild(option);
+        });
+        select.onchange = () => {
+            colony.overflowPolicy = select.value as OverflowPolicy;
+            this.update(ModalType.COLONY, colony);
+        };
+        elements.push(GUI.div({ classes: ['row'], styles: { marginBottom: '8px' }, children: [select] }));
+
+        const overflow = colony.getLastSolOverflow();
+        if (overflow.length === 0) {
+            elements.push(GUI.p({ textContent: 'Nothing overflowed last sol.', classes: ['text-muted'] }));
+            return elements;
+        }
+        const overflowList = GUI.div({ classes: ['production-list'] });
+        overflow.forEach(tally => {
+            const outcomes = [
+                tally.sold > 0 ? `${GUI.formatNumber(tally.sold)} t sold (${GUI.formatMoney(tally.earned)})` : null,
+                tally.shipped > 0 ? `${GUI.formatNumber(tally.shipped)} t shipped` : null,
+                tally.lost > 0 ? `${GUI.formatNumber(tally.lost)} t lost` : null
+            ].filter(outcome => outcome !== null);
+            overflowList.appendChild(GUI.div({
+                classes: ['production-item'],
+                children: [
+                    GUI.span({ textContent: GoodsRegistry.get(tally.goodId)?.name ?? `Good #${tally.goodId}`, classes: ['production-good-name'] }),
+                    GUI.span({ textContent: outcomes.join(', '), classes: tally.lost > 0 ? ['production-amount', 'text-danger'] : ['production-amount'] })
+                ]
+            }));
+        });
+        elements.push(overflowList);
+        return elements;
+    }
+
+    /**
+     * Marks a module card as stalled while the module gets less power than it draws
+     */
+    private appendBrownoutLabel(card: HTMLElement, module: Module, colony: Colony): void {
+        const share = colony.getPoweredShare(module);
+        if (share >= 1) return;
+        GUI.addClass(card, 'stalled');
+        card.appendChild(GUI.span({ classes: ['module-stall-reason'], textContent: `Brownout: ${Math.round(share * 100)}% power` }));
+    }
+
+    /**
+     * Power priority select of a module that draws power, with how much of its draw it currently gets
+     */
+    private createPowerPriorityControl(module: Module, colony: Colony, modalType: ModalType): HTMLElement[] {
+        if (!module.drawsPower()) return [];
+
+        const wrap = GUI.div({ classes: ['row'], styles: { gap: '8px', alignItems: 'center', marginTop: '16px' } });
+        wrap.appendChild(GUI.span({ textContent: 'Power priority:', classes: ['text-secondary'] }));
+
+        const select = document.createElement('select');
+        select.classList.add('btn', 'btn-secondary');
+        const labels: Record<PowerPriority, string> = {
+            [PowerPriority.HIGH]: 'High',
+            [PowerPriority.NORMAL]: 'Normal',
+            [PowerPriority.LOW]: 'Low'
+        };
+        Object.values(PowerPriority).forEach(priority => {
+            const option = document.createElement('option');
+            option.value = priority;
+            option.textContent = labels[priority];
+            if (priority === module.powerPriority) option.selected = true;
+            select.appendChild(option);
+        });
+        select.onchange = () => {
+            module.powerPriority = select.value as PowerPriority;
+            this.update(modalType, { module, colony, modalType });
+        };
+        wrap.appendChild(select);
+
+        const share = colony.getPoweredShare(module);
+        wrap.appendChild(GUI.span({
+            textContent: `${Math.round(share * 100)}% powered`,
+            classes: [share < 1 ? 'text-danger' : 'text-muted']
+        }));
+        return [wrap];
+    }
+
+    /**
+     * Retool, pack and demolish buttons of a module
+     */
+    private createModuleActionsContent(module: Module, colony: Colony): HTMLElement[] {
+        const elements: HTMLElement[] = [GUI.heading(3, { textContent: 'Module Actions', classes: ['section-title-spaced'] })];
+
+        if (module instanceof ProductionModuleClass) {
+            const select = document.createElement('select');
+            select.classList.add('btn', 'btn-secondary');
+            this.goodsRegistry?.forEach((good: Good, goodId) => {
+                if (goodId === module.goodId || !colony.canProduceGood(goodId)) return;
+                const option = document.createElement('option');
+                option.value = String(goodId);
+                option.textContent = good.name;
+                select.appendChild(option);
+            });
+            const retoolBtn = GUI.button({
+                classes: ['btn', 'btn-secondary'],
+                textContent: `Retool (level ${module.getLevel()} → ${module.getRetooledLevel()})`,
+                onClick: () => this.moduleActionCallback?.('retool', { colony, module, goodId: Number(select.value) })
+            });
+            if (select.options.length === 0) {
+                retoolBtn.disabled = true;
+                GUI.addClass(retoolBtn, 'btn-disabled');
+            }
+            elements.push(GUI.div({ classes: ['row'], styles: { gap: '8px', alignItems: 'center', marginBottom: '8px' }, children: [select, retoolBtn] }));
+        }
+
+        elements.push(GUI.div({
+            classes: ['row'],
+            styles: { gap: '8px' },
+            children: [
+                GUI.button({
+                    classes: ['btn', 'btn-secondary'],
+                    textContent: `Pack into Rocket (${module.getPackedMass()} t)`,
+                    onClick: () => this.moduleActionCallback?.('pack', { colony, module })
+                }),
+                GUI.button({
+                    classes: ['btn', 'btn-danger'],
+                    textContent: `Demolish (refund ${GUI.formatMoney(module.getDemolishRefund())})`,
+                    onClick: () => this.moduleActionCallback?.('demolish', { colony, module })
+                })
+            ]
+        }));
+        return elements;
+    }
+
+    /**
+     * Create a card for a production module
+     */
+    private createProductionModuleCard(module: ProductionModule, goodName: string, colony: Colony): HTMLElement {
+        const card = GUI.div({
+            classes: ['module-card', 'filled', 'clickable'],
+            children: [
+                GUI.span({
+                    classes: ['module-icon', 'material-symbols-rounded'],
+                    textContent: 'factory'
+                }),
+                GUI.span({ classes: ['module-label'], textContent: goodName }),
+                GUI.span({
+                    classes: ['module-level'],
+                    textContent: `Lv ${module.getLevel()}`
+                })
+            ]
+        });
+
+        // Make it clickable to open upgrade modal
+        console.log('[ModalManager] Card generated for production module:', { goodName, level: module.getLevel() });
+
+        card.onclick = () => {
+            console.log('[ModalManager] Production module card clicked');
+            this.open(ModalType.MODULE, { module, colony, modalType: ModalType.MODULE });
+        };
+
+        return card;
+    }
+
+    /**
+     * Create a card for an infrastructure module with color coding
+     */
+    private createInfrastructureModuleCard(module: InfrastructureModule, colony: Colony): HTMLElement {
+        const card = GUI.div({
+            classes: ['module-card', 'filled', 'clickable', 'infrastructure'],
+            children: [
+                GUI.span({
+                    classes: ['module-icon', 'material-symbols-rounded'],
+                    textContent: module.getIcon()
+                }),
+                GUI.span({ classes: ['module-label'], textContent: module.getModuleName() }),
+                GUI.span({
+                    classes: ['module-level'],
+                    textContent: `Lv ${module.getLevel()}`
+                })
+            ],
+            styles: {
+                borderColor: module.getColor(),
+                boxShadow: `0 0 10px ${module.getColor()}40`
+            }
+        });
+
+        // Make it clickable to open upgrade modal
+        card.onclick = () => {
+            console.log('[ModalManager] Infrastructure module card clicked');
+            this.open(ModalType.MODULE, { module, colony, modalType: ModalType.MODULE });
+        };
+
+        return card;
+    }
+
+    private updateNotificationModal(modal: HTMLElement, data: NotificationData): void {
+        const content = GUI.query<HTMLElement>('.view-content', modal);
+        if (!content) return;
+
+        GUI.clearChildren(content);
+
+        // Add message
+        content.appendChild(GUI.p({ textContent: data.message }));
+
+        // Find or create modal-actions container
+        let actions = GUI.query<HTMLElement>('.modal-actions', modal);
+        if (!actions) {
+            actions = GUI.div({ classes: ['modal-actions'] });
+            modal.appendChild(actions);
+        }
+        GUI.clearChildren(actions);
+
+        // A decision replaces the done button with one button per choice
+        if (data.choices && data.choices.length > 0) {
+            data.choices.forEach(choice => {
+                actions!.appendChild(GUI.button({
+                    classes: ['btn', 'btn-secondary'],
+                    textContent: choice.label,
+                    onClick: () => {
+                        if (choice.onSelect()) this.close(ModalType.NOTIFICATION);
+                    }
+                }));
+            });
+            return;
+        }
+
+        // Create blue done button in modal-actions
+        const doneBtn = GUI.button({
+            classes: ['btn', 'btn-secondary'],
             textContent: 'Done',
             onClick: () => {
                 data.onConfirm?.();
@@ -1134,8 +1841,413 @@ class ModalManager implements ModalController {
         this.open(ModalType.NOTIFICATION, { message, onConfirm });
     }
 
+    /**
+     * Asks the player to decide. A choice closes the notification when its handler returns true.
+     */
+    showChoice(message: string, choices: { label: string; onSelect: () => boolean }[]): void {
+        this.open(ModalType.NOTIFICATION, { message, choices });
+    }
+
+    /**
+     * Shows a random event, with its choices if the player still has to decide
+     */
+    showRandomEvent(event: ActiveRandomEvent): void {
+        const definition = RandomEventRegistry.get(event.definitionId);
+        if (!definition) return;
+
+        const goodName = event.goodId !== null ? GoodsRegistry.get(event.goodId)?.name : undefined;
+        const message = `${definition.name}: ${RandomEvents.describe(event, goodName)}`;
+        const options = event.choice === null ? definition.options ?? [] : [];
+        if (options.length === 0) {
+            this.showNotification(message);
+            return;
+        }
+
+        this.showChoice(message, options.map(option => ({
+            label: option.credits > 0 ? `${option.label} (${GUI.formatMoney(option.credits)})` : option.label,
+            onSelect: () => this.onChooseEventOptionCallback?.(event, option.id) ?? false
+        })));
+    }
+
     showSettings(): void {
-        this.open(ModalType.SETTINGS, {});
+        this.open(ModalType.SETTINGS, { saves: this.saveSlots, activeSlot: this.activeSaveSlot });
+    }
+
+    /**
+     * Open the import dialog with an empty input
+     */
+    showSaveImport(): void {
+        const modal = this.modals.get(ModalType.SAVE_IMPORT);
+        const input = modal ? GUI.query<HTMLTextAreaElement>('.save-import-text', modal) : null;
+        if (input) input.value = '';
+        this.open(ModalType.SAVE_IMPORT, { preview: null, error: null });
+    }
+
+    /**
+     * Show what a checked save file contains, or why it can't be imported
+     */
+    showSaveImportResult(data: SaveImportModalData): void {
+        if (this.isOpen(ModalType.SAVE_IMPORT)) {
+            this.open(ModalType.SAVE_IMPORT, data);
+        }
+    }
+
+    /**
+     * Tell the player their save is damaged and offer its backups
+     */
+    showRecovery(data: RecoveryModalData): void {
+        this.open(ModalType.RECOVERY, data);
+    }
+
+    /**
+     * Saves listed in the save manager. Refreshes the settings if they are open.
+     */
+    setSaveSlots(saves: SaveSlotSummary[], activeSlot: string): void {
+        this.saveSlots = saves;
+        this.activeSaveSlot = activeSlot;
+        if (this.isOpen(ModalType.SETTINGS)) {
+            this.showSettings();
+        }
+    }
+
+    showOfflineReport(report: OfflineReport): void {
+        this.open(ModalType.OFFLINE_REPORT, report);
+    }
+
+    private createCompanyModal(company: Company): HTMLElement {
+        const modal = GUI.section({
+            classes: ['company-view', 'modal']
+        });
+
+        const hotbar = GUI.createViewHotbar('Company', () => this.close(ModalType.COMPANY));
+        const content = GUI.createViewContent([], true);
+
+        modal.appendChild(hotbar);
+        modal.appendChild(content);
+
+        this.setupCloseButton(modal, ModalType.COMPANY);
+        this.updateCompanyModal(modal, company);
+
+        return modal;
+    }
+
+    /**
+     * Company level, experience towards the next level and the milestones with their rewards
+     */
+    private updateCompanyModal(modal: HTMLElement, company: Company): void {
+        const content = GUI.query<HTMLElement>('.view-content', modal);
+        if (!content) return;
+
+        GUI.clearChildren(content);
+
+        content.appendChild(GUI.row([
+            GUI.p({ textContent: 'The company gains experience from sales, exploration and investments. Higher levels unlock new features.' }),
+            GUI.createLevelCard(company.getLevel(), company.isMaxLevel())
+        ]));
+
+        const progress = Math.min(100, company.getXp() / company.getXpForNextLevel() * 100);
+        content.appendChild(GUI.div({
+            classes: ['sol-progress-bar', 'company-xp-bar'],
+            children: [GUI.div({ classes: ['sol-progress-fill'], styles: { width: `${progress}%` } })]
+        }));
+        content.appendChild(GUI.p({
+            textContent: `${GUI.formatNumber(company.getXp(), true)} / ${GUI.formatNumber(company.getXpForNextLevel())} XP to level ${company.getLevel() + 1}`,
+            classes: ['text-secondary']
+        }));
+
+        const tableWrap = GUI.div({ classes: ['lvl-table-wrap'] });
+        tableWrap.appendChild(GUI.table({
+            classes: ['lvl-table'],
+            children: company.getProperties().map(prop => GUI.createStatRow(prop.name, prop.value, prop.increase))
+        }));
+        content.appendChild(tableWrap);
+
+        content.appendChild(GUI.heading(3, { textContent: 'Milestones' }));
+        const milestoneList = GUI.div({ classes: ['milestone-list'] });
+        COMPANY_MILESTONES.forEach(milestone => {
+            const reached = milestone.level <= company.getLevel();
+            milestoneList.appendChild(GUI.div({
+                classes: reached ? ['milestone', 'reached'] : ['milestone'],
+                children: [
+                    GUI.materialIcon(reached ? 'check' : milestone.icon),
+                    GUI.div({
+                        children: [
+                            GUI.span({ textContent: `Level ${milestone.level}: ${milestone.name}`, classes: ['milestone-name'] }),
+                            GUI.p({ textContent: milestone.description, classes: ['text-secondary'] })
+                        ]
+                    })
+                ]
+            }));
+        });
+        content.appendChild(milestoneList);
+    }
+
+    /**
+     * Import dialog: the save is read from a file or pasted, checked, and previewed before it's imported
+     */
+    private createSaveImportModal(data: SaveImportModalData): HTMLElement {
+        const modal = GUI.section({
+            classes: ['save-import-view', 'modal']
+        });
+
+        const hotbar = GUI.createViewHotbar('Import Game', () => this.close(ModalType.SAVE_IMPORT));
+        const textInput = GUI.createElement('textarea', { classes: ['save-import-text'] });
+        textInput.placeholder = 'Paste a save here or choose a file';
+        textInput.rows = 4;
+
+        const fileInput = GUI.createElement('input', { classes: ['hidden'] });
+        fileInput.type = 'file';
+        fileInput.accept = '.marsinc,.txt';
+        fileInput.onchange = async () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+            textInput.value = await file.text();
+            fileInput.value = '';
+            this.settingsActionCallback?.('save-import-check', textInput.value);
+        };
+
+        const content = GUI.createViewContent([
+            textInput,
+            fileInput,
+            GUI.div({
+                classes: ['row'],
+                styles: { gap: '10px' },
+                children: [
+                    GUI.button({
+                        classes: ['btn', 'btn-secondary'],
+                        children: [GUI.materialIcon('upload_file'), GUI.span({ textContent: 'Choose File' })],
+                        onClick: () => fileInput.click()
+                    }),
+                    GUI.button({
+                        classes: ['btn', 'btn-secondary'],
+                        textContent: 'Check',
+                        onClick: () => this.settingsActionCallback?.('save-import-check', textInput.value)
+                    })
+                ]
+            }),
+            GUI.div({ classes: ['save-import-preview'] })
+        ], true);
+        const actions = GUI.div({ classes: ['modal-actions'] });
+
+        modal.appendChild(hotbar);
+        modal.appendChild(content);
+        modal.appendChild(actions);
+
+        this.setupCloseButton(modal, ModalType.SAVE_IMPORT);
+        this.updateSaveImportModal(modal, data);
+
+        return modal;
+    }
+
+    private updateSaveImportModal(modal: HTMLElement, data: SaveImportModalData): void {
+        const previewArea = GUI.query<HTMLElement>('.save-import-preview', modal);
+        const actions = GUI.query<HTMLElement>('.modal-actions', modal);
+        if (!previewArea || !actions) return;
+
+        GUI.clearChildren(previewArea);
+        GUI.clearChildren(actions);
+
+        const { preview, error } = data;
+        if (error) {
+            previewArea.appendChild(GUI.p({ classes: ['text-danger'], textContent: error }));
+        } else if (preview) {
+            const info = preview.preview;
+            previewArea.appendChild(GUI.heading(3, { textContent: preview.name }));
+            if (preview.exportedAt > 0) {
+                previewArea.appendChild(GUI.p({ classes: ['text-secondary'], textContent: `Exported ${new Date(preview.exportedAt).toLocaleString()}` }));
+            }
+            const tableWrap = GUI.div({ classes: ['lvl-table-wrap'] });
+            tableWrap.appendChild(GUI.table({
+                classes: ['lvl-table'],
+                children: [
+                    GUI.createStatRow('Company', info.companyName),
+                    GUI.createStatRow('Level', info.level),
+                    GUI.createStatRow('Sol', info.sol),
+                    GUI.createStatRow('Money', GUI.formatMoney(info.money)),
+                    GUI.createStatRow('Colonies', info.colonies.join(', ')),
+                    GUI.createStatRow('Rockets', info.rockets),
+                    GUI.createStatRow('Technologies', info.technologies)
+                ]
+            }));
+            previewArea.appendChild(tableWrap);
+        }
+
+        actions.appendChild(GUI.button({
+            classes: ['btn', 'btn-secondary'],
+            textContent: 'Cancel',
+            onClick: () => this.close(ModalType.SAVE_IMPORT)
+        }));
+
+        const importBtn = GUI.button({
+            classes: ['btn', 'btn-small'],
+            textContent: 'Import as New Save',
+            onClick: () => {
+                if (preview) this.settingsActionCallback?.('save-import', preview);
+            }
+        });
+        importBtn.disabled = !preview;
+        actions.appendChild(importBtn);
+    }
+
+    private createRecoveryModal(data: RecoveryModalData): HTMLElement {
+        const modal = GUI.section({
+            classes: ['recovery-view', 'modal']
+        });
+
+        const hotbar = GUI.createViewHotbar('Save Damaged', () => this.close(ModalType.RECOVERY));
+        const content = GUI.createViewContent([], true);
+
+        modal.appendChild(hotbar);
+        modal.appendChild(content);
+
+        this.setupCloseButton(modal, ModalType.RECOVERY);
+        this.updateRecoveryModal(modal, data);
+
+        return modal;
+    }
+
+    /**
+     * The load error and the backups of the damaged slot. The most recent backup that loads is recommended.
+     */
+    private updateRecoveryModal(modal: HTMLElement, data: RecoveryModalData): void {
+        const content = GUI.query<HTMLElement>('.view-content', modal);
+        if (!content) return;
+
+        GUI.clearChildren(content);
+
+        content.appendChild(GUI.p({ textContent: 'Your save could not be loaded. It has not been changed.' }));
+        content.appendChild(GUI.p({ classes: ['text-danger'], textContent: data.error }));
+
+        if (data.backups.length === 0) {
+            content.appendChild(GUI.p({ classes: ['text-secondary'], textContent: 'There are no backups of this save.' }));
+            return;
+        }
+
+        content.appendChild(GUI.heading(3, { textContent: 'Backups' }));
+        const recommended = data.backups.find(backup => backup.problem === null);
+        const list = GUI.div({ classes: ['save-slot-list'] });
+        data.backups.forEach(backup => {
+            const restoreBtn = GUI.button({
+                classes: ['btn', 'btn-small'],
+                textContent: 'Restore',
+                onClick: () => data.onRestore(backup.slot)
+            });
+            restoreBtn.disabled = backup.problem !== null;
+
+            list.appendChild(GUI.div({
+                classes: backup === recommended ? ['save-slot', 'active'] : ['save-slot'],
+                children: [
+                    GUI.div({
+                        classes: ['save-slot-info'],
+                        children: [
+                            GUI.p({ classes: ['save-slot-name'], textContent: backup === recommended ? `${backup.name} (recommended)` : backup.name }),
+                            GUI.p({ textContent: `Sol ${backup.sol} · ${GUI.formatMoney(backup.money)}` }),
+                            GUI.p({ classes: ['save-slot-date'], textContent: `Saved ${new Date(backup.savedAt).toLocaleString()}` }),
+                            ...(backup.problem ? [GUI.p({ classes: ['text-danger'], textContent: backup.problem })] : [])
+                        ]
+                    }),
+                    restoreBtn
+                ]
+            }));
+        });
+        content.appendChild(list);
+        content.appendChild(GUI.p({ classes: ['text-secondary'], textContent: 'Close this window to keep playing the current game instead. The damaged save stays in the save manager.' }));
+    }
+
+    private createOfflineReportModal(report: OfflineReport): HTMLElement {
+        const modal = GUI.section({
+            classes: ['offline-report-view', 'modal']
+        });
+
+        const hotbar = GUI.createViewHotbar('While You Were Away', () => this.close(ModalType.OFFLINE_REPORT));
+        const content = GUI.createViewContent([], true);
+        const actions = GUI.div({ classes: ['modal-actions'] });
+
+        modal.appendChild(hotbar);
+        modal.appendChild(content);
+        modal.appendChild(actions);
+
+        this.setupCloseButton(modal, ModalType.OFFLINE_REPORT);
+        this.updateOfflineReportModal(modal, report);
+
+        return modal;
+    }
+
+    private updateOfflineReportModal(modal: HTMLElement, report: OfflineReport): void {
+        const content = GUI.query<HTMLElement>('.view-content', modal);
+        if (!content) return;
+
+        GUI.clearChildren(content);
+
+        const hoursAway = report.elapsedMs / 3_600_000;
+        const sols = Math.floor(report.solsSimulated);
+        content.appendChild(GUI.p({
+            textContent: `You were away for ${hoursAway >= 1 ? `${hoursAway.toFixed(1)} hours` : `${Math.round(hoursAway * 60)} minutes`}. ${sols} ${sols === 1 ? 'sol' : 'sols'} passed.`,
+            classes: ['text-secondary']
+        }));
+
+        const earnings = report.moneyAfter - report.moneyBefore;
+        const tableWrap = GUI.div({ classes: ['lvl-table-wrap'] });
+        tableWrap.appendChild(GUI.table({
+            classes: ['lvl-table'],
+            children: [
+                GUI.createStatRow('Net earnings', `${earnings < 0 ? '-' : ''}${GUI.formatMoney(Math.abs(earnings))}`),
+                GUI.createStatRow('Rocket arrivals', report.arrivals.length)
+            ]
+        }));
+        content.appendChild(tableWrap);
+
+        if (report.producedGoods.size > 0) {
+            content.appendChild(GUI.heading(3, { textContent: 'Goods Produced' }));
+            const productionList = GUI.div({ classes: ['production-list'] });
+            report.producedGoods.forEach((quantity, goodId) => {
+                const good = GoodsRegistry.get(goodId);
+                productionList.appendChild(GUI.div({
+                    classes: ['production-item'],
+                    children: [
+                        GUI.span({ textContent: good ? good.name : `Good #${goodId}`, classes: ['production-good-name'] }),
+                        GUI.span({ textContent: `+${GUI.formatNumber(quantity)} t`, classes: ['production-amount'] })
+                    ]
+                }));
+            });
+            content.appendChild(productionList);
+        }
+
+        if (report.arrivals.length > 0) {
+            content.appendChild(GUI.heading(3, { textContent: 'Arrivals' }));
+            const arrivalList = GUI.div({ classes: ['production-list'] });
+            report.arrivals.forEach(arrival => {
+                arrivalList.appendChild(GUI.div({
+                    classes: ['production-item'],
+                    children: [
+                        GUI.span({ textContent: arrival.rocketName, classes: ['production-good-name'] }),
+                        GUI.span({ textContent: arrival.locationName, classes: ['text-secondary'] })
+                    ]
+                }));
+            });
+            content.appendChild(arrivalList);
+        }
+
+        report.coloniesFounded.forEach(name => {
+            content.appendChild(GUI.p({ textContent: `New colony established: ${name}`, classes: ['text-success'] }));
+        });
+
+        report.randomEvents.forEach(name => {
+            content.appendChild(GUI.p({ textContent: `Event: ${name}`, classes: ['text-secondary'] }));
+        });
+
+        let actions = GUI.query<HTMLElement>('.modal-actions', modal);
+        if (!actions) {
+            actions = GUI.div({ classes: ['modal-actions'] });
+            modal.appendChild(actions);
+        }
+        GUI.clearChildren(actions);
+
+        actions.appendChild(GUI.button({
+            classes: ['btn', 'btn-secondary'],
+            textContent: 'Continue',
+            onClick: () => this.close(ModalType.OFFLINE_REPORT)
+        }));
     }
 
     private createCargoLoadModal(data: { rocket: Rocket; source: StorageHolder & { name: string } }): HTMLElement {
@@ -1296,7 +2408,7 @@ class ModalManager implements ModalController {
                         textContent: `-${amount}`,
                         onClick: () => {
                             const transferAmount = Math.min(amount, rocketQty);
-                            const remaining = source.getCapacity() - source.getTotalQuantity();
+                            const remaining = Math.floor(source.getFreeRoomFor(good));
                             const actualAmount = Math.min(transferAmount, remaining);
 
                             if (actualAmount > 0) {
@@ -1327,7 +2439,7 @@ class ModalManager implements ModalController {
                         textContent: `+${amount}`,
                         onClick: () => {
                             const transferAmount = Math.min(amount, sourceQty);
-                            const remaining = rocket.getCapacity() - rocket.getTotalQuantity();
+                            const remaining = Math.floor(rocket.getFreeRoomFor(good));
                             const actualAmount = Math.min(transferAmount, remaining);
 
                             if (actualAmount > 0) {
@@ -1354,13 +2466,14 @@ class ModalManager implements ModalController {
      * Create generic module upgrade modal (works for all Module types)
      */
     private createModuleModal(data: { module: Module; colony: Colony; modalType: ModalType }): HTMLElement {
-        const { module, modalType } = data;
+        const { module, colony, modalType } = data;
         console.log('[ModalManager] Creating module modal:', { moduleName: module.getModuleName(), modalType });
         return this.createGenericLevelSystemModal(
             module.getModuleName(),
             `Upgrade this module to improve its capabilities.`,
             module,
-            modalType
+            modalType,
+            [...this.createPowerPriorityControl(module, colony, modalType), ...this.createModuleActionsContent(module, colony)]
         );
     }
 
@@ -1383,7 +2496,8 @@ class ModalManager implements ModalController {
             modal,
             module,
             `Upgrade this module to improve its capabilities.`,
-            modalType
+            modalType,
+            [...this.createPowerPriorityControl(module, colony, modalType), ...this.createModuleActionsContent(module, colony)]
         );
 
         // After upgrade, refresh the colony modal if it's open
@@ -1442,28 +2556,40 @@ class ModalManager implements ModalController {
         content.appendChild(infraTitle);
 
         const infraDescription = GUI.p({
-            textContent: 'Infrastructure modules provide various benefits to your colony such as storage and rocket capacity.',
+            textContent: 'Infrastructure modules provide various benefits to your colony such as storage, housing, power and rocket capacity.',
             classes: ['text-secondary']
         });
         content.appendChild(infraDescription);
 
         const infraGrid = GUI.div({ classes: ['goods-selection-grid', 'infrastructure-selection-grid'] });
 
-        // Add infrastructure module options
-        Object.entries(INFRASTRUCTURE_CONFIGS).forEach(([typeId, config]) => {
+        // Add infrastructure module options, one card per catalog entry
+        Object.values(INFRASTRUCTURE_CONFIGS).forEach(config => {
             const infraCost = baseModuleCost * 5; // 5x price for infrastructure "in addition" (assuming multiplier)
+            const infrastructureId = config.type;
+            const canBuild = colony.canBuildInfrastructure(infrastructureId);
+            const unlockingMilestone = colony.company?.getUpcomingMilestones()
+                .find(m => m.rewards.unlockInfrastructure?.includes(infrastructureId));
+            const blockedReason = !colony.isInfrastructureAllowedHere(infrastructureId)
+                ? `Only on ${config.locations?.join(', ')}`
+                : unlockingMilestone
+                    ? `Company level ${unlockingMilestone.level}`
+                    : 'Limit reached';
 
             const infraCard = GUI.div({
-                classes: ['good-selection-card', 'clickable', 'infrastructure-card'],
+                classes: canBuild
+                    ? ['good-selection-card', 'clickable', 'infrastructure-card']
+                    : ['good-selection-card', 'disabled', 'infrastructure-card'],
                 children: [
                     GUI.span({
                         classes: ['good-icon', 'material-symbols-rounded'],
                         textContent: config.icon
                     }),
                     GUI.span({ classes: ['good-name'], textContent: config.name }),
+                    GUI.span({ classes: ['good-production'], textContent: config.description }),
                     GUI.span({
                         classes: ['good-production'],
-                        textContent: `Cost: ${GUI.formatMoney(infraCost)}`
+                        textContent: canBuild ? `Cost: ${GUI.formatMoney(infraCost)}` : blockedReason
                     })
                 ],
                 styles: {
@@ -1472,8 +2598,13 @@ class ModalManager implements ModalController {
                 }
             });
 
+            if (!canBuild) {
+                infraGrid.appendChild(infraCard);
+                return;
+            }
+
             infraCard.onclick = () => {
-                const newModule = new InfrastructureModuleClass(Number(typeId) as InfrastructureType);
+                const newModule = new InfrastructureModuleClass(infrastructureId);
                 if (this.onBuildModuleCallback) {
                     if (this.onBuildModuleCallback(colony, newModule, infraCost)) {
                         this.close(ModalType.BUILD_MODULE);
@@ -1522,27 +2653,41 @@ class ModalManager implements ModalController {
 
         const goodsGrid = GUI.div({ classes: ['goods-selection-grid'] });
 
-        this.goodsRegistry.forEach((good, goodId) => {
+        const locationType = colony.locationId.getType();
+        this.goodsRegistry.forEach((good: Good, goodId) => {
             const prodCost = baseModuleCost;
+            const researched = colony.isGoodResearched(goodId);
+            const canProduceHere = researched && ProductionRequirement.isValidForLocation(good.productionRequirement, locationType);
 
             const goodCard = GUI.div({
-                classes: ['good-selection-card', 'clickable'],
+                classes: canProduceHere ? ['good-selection-card', 'clickable'] : ['good-selection-card', 'disabled'],
                 children: [
                     GUI.span({
                         classes: ['good-icon', 'material-symbols-rounded'],
-                        textContent: good.icon || 'factory'
+                        textContent: good.icon
                     }),
                     GUI.span({ classes: ['good-name'], textContent: good.name }),
                     GUI.span({
                         classes: ['good-production'],
-                        textContent: `Cost: ${GUI.formatMoney(prodCost)}`
+                        textContent: canProduceHere
+                            ? `Cost: ${GUI.formatMoney(prodCost)}`
+                            : !researched
+                                ? `Research: ${Research.getUnlockingTechnology({ goodId })?.name}`
+                                : ProductionRequirement.describe(good.productionRequirement)
                     })
-                ],
-                styles: {
-                    // Slight visual distinction?
-                }
+                ]
             });
 
+            const recipeChain = this.createRecipeChain(good);
+            if (recipeChain) {
+                goodCard.appendChild(recipeChain);
+            }
+
+            if (!canProduceHere) {
+                goodsGrid.appendChild(goodCard);
+                return;
+            }
+
             goodCard.onclick = () => {
                 const newModule = new ProductionModuleClass(goodId, 1);
                 if (this.onBuildModuleCallback) {
@@ -1578,21 +2723,50 @@ class ModalManager implements ModalController {
 
         GUI.clearChildren(content);
 
-        // General Settings Section
-        const generalTitle = GUI.createElement('h3', { textContent: 'General' });
-        content.appendChild(generalTitle);
+        // Save Manager Section
+        const savesTitle = GUI.createElement('h3', { textContent: 'Saves' });
+        content.appendChild(savesTitle);
+
+        const saves: SaveSlotSummary[] = data?.saves ?? [];
+        const savesList = GUI.div({ classes: ['save-slot-list'] });
+        saves.forEach(save => savesList.appendChild(this.createSaveSlotRow(save, save.slot === data?.activeSlot)));
+        if (saves.length === 0) {
+            savesList.appendChild(GUI.p({ textContent: 'No saves yet.' }));
+        }
+        content.appendChild(savesList);
 
         const newGameBtn = GUI.createElement('button', {
-            classes: ['btn', 'btn-item', 'btn-danger'], // Using btn-item for consistent styling if available, else just btn
-            textContent: 'New Game',
+            classes: ['btn', 'btn-item'],
+            children: [
+                GUI.materialIcon('add'),
+                GUI.span({ textContent: 'New Game' })
+            ],
             onClick: () => {
-                if (confirm('Start a new game? Current progress will be lost.')) {
-                    this.settingsActionCallback?.('new-game');
+                const companyName = prompt('Name of the new company:', 'Mars Inc.');
+                if (companyName?.trim()) {
+                    this.settingsActionCallback?.('save-create', companyName.trim());
                 }
             }
         });
         content.appendChild(newGameBtn);
 
+        content.appendChild(GUI.div({
+            classes: ['row'],
+            styles: { gap: '10px' },
+            children: [
+                GUI.button({
+                    classes: ['btn', 'btn-secondary'],
+                    children: [GUI.materialIcon('download'), GUI.span({ textContent: 'Export Game' })],
+                    onClick: () => this.settingsActionCallback?.('save-export')
+                }),
+                GUI.button({
+                    classes: ['btn', 'btn-secondary'],
+                    children: [GUI.materialIcon('upload'), GUI.span({ textContent: 'Import Game' })],
+                    onClick: () => this.showSaveImport()
+                })
+            ]
+        }));
+
         // Cheats Section
         const cheatsTitle = GUI.createElement('h3', {
             textContent: 'Cheats / Debug',
@@ -1648,6 +2822,50 @@ class ModalManager implements ModalController {
         content.appendChild(cheatsContainer);
     }
 
+    /**
+     * One save in the save manager with its actions. The game in progress can't be loaded or deleted.
+     */
+    private createSaveSlotRow(save: SaveSlotSummary, isActive: boolean): HTMLElement {
+        const actionButton = (icon: string, title: string, onClick: () => void): HTMLButtonElement => {
+            const button = GUI.iconButton(icon, onClick);
+            button.title = title;
+            return button;
+        };
+
+        const loadBtn = actionButton('play_arrow', 'Load', () => this.settingsActionCallback?.('save-load', save.slot));
+        const deleteBtn = actionButton('delete', 'Delete', () => {
+            this.showChoice(`Delete the save "${save.name}"? This cannot be undone.`, [
+                { label: 'Delete', onSelect: () => { this.settingsActionCallback?.('save-delete', save.slot); return true; } },
+                { label: 'Cancel', onSelect: () => true }
+            ]);
+        });
+        loadBtn.disabled = isActive;
+        deleteBtn.disabled = isActive;
+
+        return GUI.div({
+            classes: isActive ? ['save-slot', 'active'] : ['save-slot'],
+            children: [
+                GUI.div({
+                    classes: ['save-slot-info'],
+                    children: [
+                        GUI.p({ classes: ['save-slot-name'], textContent: isActive ? `${save.name} (playing)` : save.name }),
+                        GUI.p({ textContent: `${save.companyName} · Sol ${save.sol} · ${GUI.formatMoney(save.money)}` }),
+                        GUI.p({ classes: ['save-slot-date'], textContent: `Saved ${new Date(save.savedAt).toLocaleString()}` })
+                    ]
+                }),
+                loadBtn,
+                actionButton('content_copy', 'Duplicate', () => this.settingsActionCallback?.('save-duplicate', save.slot)),
+                actionButton('edit', 'Rename', () => {
+                    const name = prompt('Name of the save:', save.name);
+                    if (name?.trim()) {
+                        this.settingsActionCallback?.('save-rename', { slot: save.slot, name: name.trim() });
+                    }
+                }),
+                deleteBtn
+            ]
+        });
+    }
+
     /**
      * Create rocket fleet modal
      */
@@ -1679,9 +2897,9 @@ class ModalManager implements ModalController {
         GUI.clearChildren(content);
 
         // Check for Rocket Lab
-        const rocketLab = colony.getInfrastructureModules().find(m => m.infrastructureId === InfrastructureType.ROCKET_LAB);
+        const rocketLabs = colony.getRocketLabs();
 
-        if (!rocketLab) {
+        if (rocketLabs.length === 0) {
             // No rocket lab - show requirement
             const noLabHeader = GUI.div({
                 classes: ['cargo-header'],
@@ -1698,7 +2916,7 @@ class ModalManager implements ModalController {
         }
 
         // Fleet Status Header
-        const capacity = rocketLab.getBenefitValue();
+        const capacity = colony.getRocketCapacity();
         const canBuild = rocketCount < capacity;
 
         const fleetHeader = GUI.div({
@@ -1710,7 +2928,7 @@ class ModalManager implements ModalController {
                     classes: ['text-secondary']
                 }),
                 GUI.p({ 
-                    textContent: `Rocket Lab Level: ${rocketLab.getLevel()}`,
+                    textContent: `Rocket Lab Level: ${rocketLabs.map(lab => lab.getLevel()).join(', ')}`,
                     classes: ['text-secondary']
                 })
             ]
@@ -1727,7 +2945,7 @@ class ModalManager implements ModalController {
                 classes: ['cargo-good-card', 'cargo-unload'],
                 children: [
                     GUI.p({ 
-                        textContent: 'Capacity reached. Upgrade the Rocket Lab to build more rockets.',
+                        textContent: 'Capacity reached. Upgrade a Rocket Lab or build another one to build more rockets.',
                         styles: { margin: '0' }
                     })
                 ]
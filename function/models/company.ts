@@ -1,9 +1,11 @@
-import { StorageHolder } from "./storage";
+import { StorageHolder, type Rocket } from "./storage";
 import { LevelSystem, type LevelProperty } from "./level";
-import { SpaceLocation } from "./location";
-import { getProductionModifierForLocation, SpaceLocation as SpaceLocationClass } from "./location";
-import { ItemPosition, Good } from "./good";
+import { SpaceLocation, LocationType } from "./location";
+import { getProductionModifierForLocation, getSolarModifierForLocation, requiresLifeSupport, SpaceLocation as SpaceLocationClass } from "./location";
+import { ItemPosition, Good, Category, ProductionRequirement, StorageClass, STORAGE_CLASSES } from "./good";
 import { GoodsRegistry } from "./goodsRegistry";
+import { Research } from "./research";
+import { InfrastructureType, InfrastructureBenefit, INFRASTRUCTURE_CONFIGS, evaluateBenefitCurve, type InfrastructureDefinition, type GeneratorKind } from "./infrastructure";
 import { CONFIG } from "../config";
 
 enum ModuleType {
@@ -11,45 +13,159 @@ enum ModuleType {
     INFRASTRUCTURE = "infrastructure"
 }
 
+/**
+ * Order in which modules are supplied when a colony's power runs short
+ */
+enum PowerPriority {
+    HIGH = "high",
+    NORMAL = "normal",
+    LOW = "low"
+}
+
+const POWER_PRIORITY_ORDER: PowerPriority[] = [PowerPriority.HIGH, PowerPriority.NORMAL, PowerPriority.LOW];
+
+/**
+ * Goods a colony produced in a sol but had no room for in their storage class
+ */
+type StorageLoss = {
+    sol: number;
+    goodId: number;
+    quantity: number;
+    earned?: number; // Set when the goods were sold instead, like the stock a save migration found beyond the capacity
+};
+
+/**
+ * What a colony does with production that finds no room in its storage class
+ */
+enum OverflowPolicy {
+    DISCARD = "discard",                    // Throw the overflow away
+    SELL = "sell",                          // Sell it at a discount on the colony's local market
+    SHIP = "ship",                          // Load it into idle rockets docked at the colony
+    PAUSE = "pause",                        // Pause the modules whose storage class is full
+    DISCARD_CHEAPEST = "discardCheapest"    // Throw away cheaper goods of the same class to make room
+}
+
+/**
+ * What happened to a good's production in a sol
+ */
+type SolTally = {
+    quantity: number;   // Stored in the colony
+    lost: number;       // Thrown away, including cheaper goods discarded to make room
+    sold: number;       // Sold by the SELL policy
+    earned: number;     // Credits the sold units earned
+    shipped: number;    // Loaded into rockets by the SHIP policy
+};
+
+/**
+ * A colony's power at the current moment of the sol
+ */
+type PowerBudget = {
+    supply: number;                 // kW available, including what fuel cells burn for
+    demand: number;                 // kW all modules draw
+    solar: number;                  // kW from solar farms
+    fuelCells: number;              // kW fuel cells supply to cover the rest of the demand
+    powered: Map<Module, number>;   // Share of its draw every drawing module gets, from 0 to 1
+};
+
 abstract class Module extends LevelSystem {
     moduleType: ModuleType;
+    powerPriority: PowerPriority = PowerPriority.NORMAL;
 
     constructor(moduleType: ModuleType, initialLevel: number = 1) {
         super(initialLevel);
         this.moduleType = moduleType;
     }
 
+    /**
+     * kW the module draws from its colony's power budget. Generators and passive structures draw nothing.
+     */
+    getPowerDraw(level?: number): number {
+        if (!this.drawsPower()) return 0;
+        return CONFIG.power.drawBase + CONFIG.power.drawPerLevel * ((level ?? this.getLevel()) - 1);
+    }
+
+    /**
+     * Tonnes of cargo room the module takes when it is packed into a rocket
+     */
+    getPackedMass(): number {
+        return CONFIG.modules.packedMassBase + CONFIG.modules.packedMassPerLevel * (this.getLevel() - 1);
+    }
+
+    /**
+     * Credits demolishing the module pays back, a share of what its upgrades cost
+     */
+    getDemolishRefund(): number {
+        return Math.floor(this.getInvestedUpgradeCost() * CONFIG.modules.demolishRefundShare);
+    }
+
+    abstract drawsPower(): boolean;
     abstract getWorkersNeeded(level?: number): number;
     abstract getModuleIdentifier(): number | InfrastructureType;
     abstract getModuleName(): string;
     abstract toData(): any;
 }
 
-// the number is the base value for levling up
-enum InfrastructureType {
-    // Allow for docking more rockets, producing is unlocked at lvl 1
-    ROCKET_LAB = 0,
-    STOREROOM = 1
-}
+/**
+ * What reaching a company level unlocks. Infrastructure and locations listed here are locked until then.
+ */
+type MilestoneRewards = {
+    rocketLabsPerColony?: number;            // Rocket Labs a colony may build, replaces the default of one
+    unlockInfrastructure?: InfrastructureType[];
+    unlockLocations?: LocationType[];
+};
 
-interface InfrastructureTypeConfig {
+type CompanyMilestone = {
+    level: number;
     name: string;
-    color: string;
+    description: string;
     icon: string;
-}
+    rewards: MilestoneRewards;
+};
 
-const INFRASTRUCTURE_CONFIGS: Record<number, InfrastructureTypeConfig> = {
-    [InfrastructureType.ROCKET_LAB]: {
-        name: "Rocket Lab",
-        color: "#4a90e2",
-        icon: "rocket_launch"
+const COMPANY_MILESTONES: CompanyMilestone[] = [
+    {
+        level: 2,
+        name: "Habitats",
+        description: "Build Habitat modules that house more colonists.",
+        icon: "bedroom_parent",
+        rewards: { unlockInfrastructure: [InfrastructureType.HABITAT] }
+    },
+    {
+        level: 3,
+        name: "Orbital Charter",
+        description: "The Space Station can be explored.",
+        icon: "satellite_alt",
+        rewards: { unlockLocations: [LocationType.SPACE_STATION] }
+    },
+    {
+        level: 4,
+        name: "Heavy Industry",
+        description: "Build Power Plants and Refineries.",
+        icon: "factory",
+        rewards: { unlockInfrastructure: [InfrastructureType.POWER_PLANT, InfrastructureType.REFINERY] }
+    },
+    {
+        level: 5,
+        name: "Second Rocket Lab",
+        description: "Every colony can run two Rocket Labs.",
+        icon: "rocket_launch",
+        rewards: { rocketLabsPerColony: 2 }
     },
-    [InfrastructureType.STOREROOM]: {
-        name: "Storeroom",
-        color: "#60c531",
-        icon: "package_2"
+    {
+        level: 7,
+        name: "Spaceports",
+        description: "Build Spaceports that save fuel on every launch.",
+        icon: "flight_takeoff",
+        rewards: { unlockInfrastructure: [InfrastructureType.SPACEPORT] }
+    },
+    {
+        level: 10,
+        name: "Third Rocket Lab",
+        description: "Every colony can run three Rocket Labs.",
+        icon: "rocket_launch",
+        rewards: { rocketLabsPerColony: 3 }
     }
-};
+];
 
 /**
  * Used for infrastructure modules that provide various benefits to the colony, such as increased storage capacity or the ability to build rockets.
@@ -65,7 +181,11 @@ class InfrastructureModule extends Module {
 
     public getWorkersNeeded(level?: number): number {
         const lvl = level ?? this.getLevel();
-        return Math.ceil(lvl / CONFIG.infrastructure.rocketLab.workersPerLevelDivisor) * CONFIG.infrastructure.rocketLab.workersPerLevelMultiplier + CONFIG.infrastructure.rocketLab.workersBase;
+        return Math.ceil(lvl / CONFIG.infrastructure.workersPerLevelDivisor) * CONFIG.infrastructure.workersPerLevelMultiplier + CONFIG.infrastructure.workersBase;
+    }
+
+    public getDefinition(): InfrastructureDefinition | undefined {
+        return INFRASTRUCTURE_CONFIGS[this.infrastructureId];
     }
 
     public getModuleIdentifier(): InfrastructureType {
@@ -84,17 +204,16 @@ class InfrastructureModule extends Module {
         return INFRASTRUCTURE_CONFIGS[this.infrastructureId]?.icon || "build";
     }
 
+    public drawsPower(): boolean {
+        return this.getDefinition()?.drawsPower ?? false;
+    }
+
+    /**
+     * The benefit of the module at a level, following the curve of its catalog entry
+     */
     public getBenefitValue(level?: number): number {
-        // Calculate benefit based on infrastructure type
-        const lvl = level ?? this.getLevel();
-        switch (this.infrastructureId) {
-            case InfrastructureType.ROCKET_LAB:
-                return Math.floor(lvl / CONFIG.infrastructure.rocketLab.benefitLevelDivisor) + CONFIG.infrastructure.rocketLab.benefitBaseValue; // Rockets allowed
-            case InfrastructureType.STOREROOM:
-                return CONFIG.infrastructure.storeroom.baseCapacity * Math.pow(CONFIG.infrastructure.storeroom.capacityScalingFactor, (level ?? this.getLevel()) - 1); // Storage capacity
-            default:
-                return 0;
-        }
+        const definition = this.getDefinition();
+        return definition ? evaluateBenefitCurve(definition.curve, level ?? this.getLevel()) : 0;
     }
 
     override onUpgrade(): void {
@@ -103,29 +222,27 @@ class InfrastructureModule extends Module {
     }
 
     override getProperties(): LevelProperty[] {
-        const currentBenefit = this.getBenefitValue();
-        const nextBenefit = this.getBenefitValue(this.getLevel() + 1);
-
-        let benefitName = "Benefit";
-        switch (this.infrastructureId) {
-            case InfrastructureType.ROCKET_LAB:
-                benefitName = "Rockets Allowed";
-                break;
-            case InfrastructureType.STOREROOM:
-                benefitName = "Storage Capacity";
-                break;
-        }
+        const definition = this.getDefinition();
+        // Shares are shown as percentages with one decimal
+        const display = (value: number) => definition?.percent ? Math.round(value * 1000) / 10 : Math.floor(value);
+        const currentBenefit = display(this.getBenefitValue());
+        const nextBenefit = display(this.getBenefitValue(this.getLevel() + 1));
 
-        return [
-            { name: benefitName, value: currentBenefit, increase: nextBenefit - currentBenefit },
+        const properties: LevelProperty[] = [
+            { name: definition?.benefitLabel ?? "Benefit", value: currentBenefit, increase: parseFloat((nextBenefit - currentBenefit).toFixed(1)) },
             { name: "Workers Needed", value: this.getWorkersNeeded(), increase: this.getWorkersNeeded(this.getLevel() + 1) - this.getWorkersNeeded() }
         ];
+        if (this.drawsPower()) {
+            properties.push({ name: "Power Draw (kW)", value: this.getPowerDraw(), increase: this.getPowerDraw(this.getLevel() + 1) - this.getPowerDraw() });
+        }
+        return properties;
     }
 
     toData() {
         return {
             infrastructureId: this.infrastructureId,
-            level: this.getLevel()
+            level: this.getLevel(),
+            powerPriority: this.powerPriority
         };
     }
 }
@@ -154,6 +271,10 @@ class ProductionModule extends Module {
         return this.goodId;
     }
 
+    public drawsPower(): boolean {
+        return true;
+    }
+
     public getModuleName(): string {
         const good = GoodsRegistry.get(this.goodId);
         return good ? good.name : `Good #${this.goodId}`;
@@ -163,6 +284,22 @@ class ProductionModule extends Module {
         return this.initialQuantityPerSol * Math.pow(1.2, (level ?? this.getLevel()) - 1);
     }
 
+    /**
+     * The level the module keeps when it is retooled to another good
+     */
+    public getRetooledLevel(): number {
+        return this.getLevel() - Math.ceil((this.getLevel() - 1) * CONFIG.modules.retoolLevelPenalty);
+    }
+
+    /**
+     * Switches the module to another good. It loses part of its levels, see getRetooledLevel.
+     */
+    public retool(goodId: number): void {
+        this.decreaseLevel(this.getLevel() - this.getRetooledLevel());
+        this.goodId = goodId;
+        this.initialQuantityPerSol = GoodsRegistry.get(goodId)?.baseProductionPerSol ?? 1;
+    }
+
     override onUpgrade(): void {
         // Increase quantity produced per sol by 2% on each upgrade
         return;
@@ -171,32 +308,76 @@ class ProductionModule extends Module {
     override getProperties(): LevelProperty[] {
         return [
             { name: "Production (t/sol)", value: this.getQuantityPerSol(), increase: this.getQuantityPerSol(this.getLevel() + 1) - this.getQuantityPerSol() },
-            { name: "Workers Needed", value: this.getWorkersNeeded(), increase: this.getWorkersNeeded(this.getLevel() + 1) - this.getWorkersNeeded() }
+            { name: "Workers Needed", value: this.getWorkersNeeded(), increase: this.getWorkersNeeded(this.getLevel() + 1) - this.getWorkersNeeded() },
+            { name: "Power Draw (kW)", value: this.getPowerDraw(), increase: this.getPowerDraw(this.getLevel() + 1) - this.getPowerDraw() }
         ];
     }
 
     toData() {
         return {
             goodId: this.goodId,
-            level: this.getLevel()
+            level: this.getLevel(),
+            powerPriority: this.powerPriority
         };
     }
 } 
 
+const COLONY_BASE_CAPACITY = 100;
+const COLONY_CAPACITY_GROWTH = 1.175; // Colonies have a more modest capacity growth
+
+/**
+ * Capacity of one storage class of a colony. A class gets its share of the capacity from the colony level and
+ * Storerooms, never less than the class minimum, plus the capacity of the infrastructure built for the class.
+ */
+function getColonyClassCapacity(
+    storageClass: StorageClass,
+    locationType: LocationType,
+    colonyLevel: number,
+    infrastructure: { infrastructureId: InfrastructureType; level: number }[]
+): number {
+    const benefit = (matches: (definition: InfrastructureDefinition) => boolean) => infrastructure.reduce((total, module) => {
+        const definition = INFRASTRUCTURE_CONFIGS[module.infrastructureId];
+        return definition && matches(definition) ? total + evaluateBenefitCurve(definition.curve, module.level) : total;
+    }, 0);
+    const locationFactor = Math.pow(getProductionModifierForLocation(locationType), 2);
+
+    // Base capacity from the colony level plus the capacity from all Storerooms
+    const levelCapacity = Math.floor(COLONY_BASE_CAPACITY * Math.pow(COLONY_CAPACITY_GROWTH, colonyLevel + 1));
+    const sharedCapacity = levelCapacity + benefit(definition => definition.benefit === InfrastructureBenefit.STORAGE);
+    const classCapacity = benefit(definition => definition.benefit === InfrastructureBenefit.CLASS_STORAGE && definition.storageClass === storageClass);
+    const share = locationFactor * Math.floor(sharedCapacity * (CONFIG.storage.classShares[storageClass] ?? 0));
+
+    return Math.floor(Math.max(CONFIG.storage.classMinimums[storageClass] ?? 0, share) + locationFactor * classCapacity);
+}
+
 class Colony extends StorageHolder {
     colonyId: string;
     name: string;
     locationId: SpaceLocation;
     private colonyModules: Module[] = [];
+    private productionProgress: Map<number, number> = new Map(); // Fraction of the next unit per good
+    private solTally: Map<number, SolTally> = new Map(); // Output of the running sol
+    private lastSolTally: Map<number, SolTally> = new Map(); // Output of the previous sol
+    private overflow: Map<number, number> = new Map(); // Units without room the simulation still has to sell or ship
+    private stallReasons: Map<number, string> = new Map(); // Goods whose recipe inputs are missing or whose modules are paused
+    private storageReservations: Map<number, number> = new Map(); // Room of its storage class kept free for a good
+    private storageLosses: StorageLoss[] = []; // Goods thrown away for lack of room, oldest first
+    population: number = CONFIG.population.initial;
+    overflowPolicy: OverflowPolicy = OverflowPolicy.DISCARD;
+    company: Company | null = null; // The owning company, set by Company.addColony
+    eventProductionMultiplier: number = 1; // Effect of running random events, set by the simulation each step
+    eventSolarMultiplier: number = 1; // Effect of running random events on solar farms, set by the simulation each step
+    daylight: boolean = true; // Whether the sun is up at the colony, set by the simulation each step
+    private tickPowerBudget: PowerBudget | null = null; // Power budget of the running tick, computed once for all modules
 
     constructor(colonyId: string, name: string, locationId: SpaceLocation, initialLevel: number = 1, colonyModules: Module[] = []) {
-        super([], 100, initialLevel); // Start at level 1, empty items, capacity 100
+        super([], COLONY_BASE_CAPACITY, initialLevel); // Start at level 1, empty items
         this.colonyId = colonyId;
         this.name = name;
         this.locationId = locationId;
         this.colonyModules = colonyModules;
 
-        this.scaleFactor = 1.175; // Colonies have a more modest capacity growth
+        this.scaleFactor = COLONY_CAPACITY_GROWTH;
         this.MAX_LEVEL = 1499;
     }
 
@@ -206,25 +387,70 @@ class Colony extends StorageHolder {
     }
 
     getProductionMultiplier(): number {
-        return getProductionModifierForLocation(this.locationId.getType()) * getProductionModifierForLocation(this.locationId.getType()) * Math.pow(1.02, this.getLevel() - 1);
+        return getProductionModifierForLocation(this.locationId.getType()) * getProductionModifierForLocation(this.locationId.getType()) * Math.pow(1.02, this.getLevel() - 1) * this.eventProductionMultiplier;
     }
 
+    /**
+     * Total storage, the sum of the storage classes
+     */
     override getCapacity(lvl?: number): number {
-        // Get base capacity from the colony level
-        const baseCapacity = super.getCapacity(lvl);
-        
-        // Add capacity from all STOREROOM infrastructure modules
-        const storeroomBonus = this.getInfrastructureModules()
-            .filter(module => module.infrastructureId === InfrastructureType.STOREROOM)
-            .reduce((total, module) => total + module.getBenefitValue(), 0);
-        
-        return getProductionModifierForLocation(this.locationId.getType()) * getProductionModifierForLocation(this.locationId.getType()) *  Math.floor(baseCapacity + storeroomBonus);
+        return STORAGE_CLASSES.reduce((total, storageClass) => total + this.getClassCapacity(storageClass, lvl), 0);
+    }
+
+    /**
+     * See getColonyClassCapacity. Storage keeps its capacity in a brownout.
+     */
+    override getClassCapacity(storageClass: StorageClass, lvl?: number): number {
+        const infrastructure = this.getInfrastructureModules().map(module => ({ infrastructureId: module.infrastructureId, level: module.getLevel() }));
+        return getColonyClassCapacity(storageClass, this.locationId.getType(), lvl ?? this.getLevel(), infrastructure);
+    }
+
+    getStorageReservation(goodId: number): number {
+        return this.storageReservations.get(goodId) ?? 0;
+    }
+
+    /**
+     * Keeps room of a good's storage class free for the good, so other goods of the class can't crowd it out.
+     * The reservations of a class can't exceed its capacity. Returns the quantity actually reserved.
+     */
+    setStorageReservation(goodId: number, quantity: number): number {
+        const good = GoodsRegistry.get(goodId);
+        if (!good) return 0;
+
+        const reservedByOthers = Array.from(this.storageReservations.entries())
+            .filter(([otherId]) => otherId !== goodId && GoodsRegistry.get(otherId)?.storageClass === good.storageClass)
+            .reduce((total, [, reserved]) => total + reserved, 0);
+        const reserved = Math.max(0, Math.min(Math.floor(quantity), this.getClassCapacity(good.storageClass) - reservedByOthers));
+        if (reserved > 0) {
+            this.storageReservations.set(goodId, reserved);
+        } else {
+            this.storageReservations.delete(goodId);
+        }
+        return reserved;
+    }
+
+    /**
+     * Reserved room of the other goods of the class that their stock doesn't fill yet
+     */
+    protected override getRoomReservedForOthers(good: Good): number {
+        let reserved = 0;
+        this.storageReservations.forEach((quantity, goodId) => {
+            if (goodId === good.getId() || GoodsRegistry.get(goodId)?.storageClass !== good.storageClass) return;
+            reserved += Math.max(0, quantity - this.getStock(goodId));
+        });
+        return reserved;
     }
 
     addColonyModule(module: Module): boolean {
         if( this.colonyModules.length >= this.getCompanyModulesAllowed()) {
             return false;
         }
+        if (module instanceof ProductionModule && !this.canProduceGood(module.goodId)) {
+            return false;
+        }
+        if (module instanceof InfrastructureModule && !this.canBuildInfrastructure(module.infrastructureId)) {
+            return false;
+        }
         this.colonyModules.push(module);
         return true;
     }
@@ -233,13 +459,202 @@ class Colony extends StorageHolder {
         this.colonyModules = this.colonyModules.filter(m => m !== module);
     }
 
+    /**
+     * Tears a module down and frees its slot. Returns the refund, see Module.getDemolishRefund, or null if the module isn't the colony's.
+     */
+    demolishModule(module: Module): number | null {
+        if (!this.colonyModules.includes(module)) return null;
+        this.removeColonyModule(module);
+        return module.getDemolishRefund();
+    }
+
+    /**
+     * Switches a production module to another good that can be produced here
+     */
+    retoolModule(module: ProductionModule, goodId: number): boolean {
+        if (!this.colonyModules.includes(module) || module.goodId === goodId || !this.canProduceGood(goodId)) return false;
+        module.retool(goodId);
+        return true;
+    }
+
+    /**
+     * Whether a rocket is docked at the colony and has room for a module packed as cargo
+     */
+    canPackModuleInto(module: Module, rocket: Rocket): boolean {
+        const docked = !rocket.getDestination() && rocket.getLocation().getId() === this.locationId.getId();
+        return docked && rocket.getCapacity() - rocket.getTotalQuantity() >= module.getPackedMass();
+    }
+
+    /**
+     * Takes a module apart and loads it into a docked rocket. It keeps its level and frees its slot here.
+     */
+    packModule(module: Module, rocket: Rocket): boolean {
+        if (!this.colonyModules.includes(module) || !this.canPackModuleInto(module, rocket)) return false;
+        this.removeColonyModule(module);
+        rocket.packedModules.push({ name: module.getModuleName(), mass: module.getPackedMass(), module: Colony.moduleToData(module) });
+        return true;
+    }
+
+    /**
+     * Reassembles a module a docked rocket carries. It needs a free slot and has to be buildable here.
+     */
+    unpackModule(rocket: Rocket, index: number): Module | null {
+        const packed = rocket.packedModules[index];
+        const docked = !rocket.getDestination() && rocket.getLocation().getId() === this.locationId.getId();
+        if (!packed || !docked) return null;
+
+        const module = Colony.moduleFromData(packed.module);
+        if (!this.addColonyModule(module)) return null;
+        rocket.packedModules.splice(index, 1);
+        return module;
+    }
+
     getCompanyModulesAllowed(lvl?: number): number {
         const level = lvl ?? this.getLevel();
-        if (level >= 999) return 15;
-        if (level >= 200) return 12;
-        if (level >= 50) return 9;
-        if (level >= 10) return 6;
-        return 3;
+        const researchSlots = this.company?.research.getExtraModuleSlots() ?? 0;
+        if (level >= 999) return 15 + researchSlots;
+        if (level >= 200) return 12 + researchSlots;
+        if (level >= 50) return 9 + researchSlots;
+        if (level >= 10) return 6 + researchSlots;
+        return 3 + researchSlots;
+    }
+
+    /**
+     * Whether the company has researched the technology a good's production modules need
+     */
+    isGoodResearched(goodId: number): boolean {
+        return this.company?.research.isGoodUnlocked(goodId) ?? true;
+    }
+
+    /**
+     * Whether production modules of a good can run here: it has to be researched and allowed at the colony's location
+     */
+    canProduceGood(goodId: number): boolean {
+        const good = GoodsRegistry.get(goodId);
+        if (!good || !this.isGoodResearched(goodId)) return false;
+        return ProductionRequirement.isValidForLocation(good.productionRequirement, this.locationId.getType());
+    }
+
+    /**
+     * Infrastructure can be restricted to some locations and has to be unlocked by a company milestone.
+     * Rocket Labs are limited per colony.
+     */
+    canBuildInfrastructure(infrastructureId: InfrastructureType): boolean {
+        if (!this.isInfrastructureAllowedHere(infrastructureId)) return false;
+        if (!this.company) return true;
+        if (!this.company.isInfrastructureUnlocked(infrastructureId)) return false;
+        if (infrastructureId !== InfrastructureType.ROCKET_LAB) return true;
+        return this.getRocketLabs().length < this.company.getRocketLabsAllowed();
+    }
+
+    isInfrastructureAllowedHere(infrastructureId: InfrastructureType): boolean {
+        const locations = INFRASTRUCTURE_CONFIGS[infrastructureId]?.locations;
+        return !locations || locations.includes(this.locationId.getType());
+    }
+
+    /**
+     * Sum of a benefit over the colony's infrastructure modules, optionally only those that match.
+     * Modules that draw power only deliver the share of their benefit they are powered for. Storage is the exception:
+     * it keeps its capacity in a brownout, so a colony never loses goods it already holds to a power shortage.
+     */
+    getInfrastructureBenefit(benefit: InfrastructureBenefit, matches: (definition: InfrastructureDefinition) => boolean = () => true): number {
+        const keepsCapacity = benefit === InfrastructureBenefit.STORAGE || benefit === InfrastructureBenefit.CLASS_STORAGE;
+        return this.getInfrastructureModules()
+            .filter(module => {
+                const definition = module.getDefinition();
+                return definition?.benefit === benefit && matches(definition);
+            })
+            .reduce((total, module) => total + module.getBenefitValue() * (keepsCapacity ? 1 : this.getPoweredShare(module)), 0);
+    }
+
+    /**
+     * Supply and demand of the colony's power right now. The colony's core supplies a base load, solar farms
+     * only run while the sun is up and fuel cells cover what is still missing as long as Fuel and O2 are stored.
+     * When the supply falls short, it goes to high priority modules first and to modules of one priority in build order.
+     * During a tick, the budget computed at its start is used.
+     */
+    getPowerBudget(): PowerBudget {
+        return this.tickPowerBudget ?? this.computePowerBudget();
+    }
+
+    private computePowerBudget(): PowerBudget {
+        const output = (generator: GeneratorKind) =>
+            this.getInfrastructureBenefit(InfrastructureBenefit.POWER, definition => definition.generator === generator);
+
+        const solar = this.daylight
+            ? output("solar") * getSolarModifierForLocation(this.locationId.getType()) * this.eventSolarMultiplier
+            : 0;
+        const steady = CONFIG.power.baseSupply + output("steady");
+        const demand = this.colonyModules.reduce((total, module) => total + module.getPowerDraw(), 0);
+        const fuelCellCapacity = this.hasFuelCellInputs() ? output("fuelCell") : 0;
+        const fuelCells = Math.min(fuelCellCapacity, Math.max(0, demand - solar - steady));
+        const supply = solar + steady + fuelCells;
+
+        const powered: Map<Module, number> = new Map();
+        let available = supply;
+        POWER_PRIORITY_ORDER.forEach(priority => {
+            this.colonyModules
+                .filter(module => module.powerPriority === priority && module.getPowerDraw() > 0)
+                .forEach(module => {
+                    const draw = module.getPowerDraw();
+                    const assigned = Math.min(draw, available);
+                    powered.set(module, assigned / draw);
+                    available -= assigned;
+                });
+        });
+
+        return { supply, demand, solar, fuelCells, powered };
+    }
+
+    /**
+     * Share of its power draw a module gets, from 0 to 1. Modules that draw nothing always run.
+     */
+    getPoweredShare(module: Module): number {
+        if (module.getPowerDraw() <= 0) return 1;
+        return this.getPowerBudget().powered.get(module) ?? 0;
+    }
+
+    private hasFuelCellInputs(): boolean {
+        return CONFIG.power.fuelCellInputsPerKw.every(input => this.getStock(input.goodId) > 0);
+    }
+
+    /**
+     * Burns the Fuel and O2 the fuel cells need for what they supplied over a fraction of a sol
+     */
+    private burnFuelCellInputs(solsPassed: number): void {
+        const { fuelCells } = this.getPowerBudget();
+        if (fuelCells <= 0) return;
+        CONFIG.power.fuelCellInputsPerKw.forEach(input => {
+            const burned = Math.min(this.getStock(input.goodId), input.quantity * fuelCells * solsPassed);
+            if (burned > 0) {
+                this.reduceItemQuantity(input.goodId, burned);
+            }
+        });
+    }
+
+    /**
+     * Factor on the fuel of launches from the colony. Spaceports save fuel, but a launch always burns some.
+     */
+    getLaunchFuelMultiplier(): number {
+        return 1 - Math.min(0.9, this.getInfrastructureBenefit(InfrastructureBenefit.LAUNCH_FUEL));
+    }
+
+    /**
+     * Factor on the output of goods of a category, from modules like Greenhouses and Refineries
+     */
+    getCategoryProductionMultiplier(category: Category): number {
+        return 1 + this.getInfrastructureBenefit(InfrastructureBenefit.PRODUCTION, definition => definition.category === category);
+    }
+
+    getRocketLabs(): InfrastructureModule[] {
+        return this.getInfrastructureModules().filter(module => module.infrastructureId === InfrastructureType.ROCKET_LAB);
+    }
+
+    /**
+     * Rockets the colony can build, summed over all its Rocket Labs
+     */
+    getRocketCapacity(): number {
+        return this.getInfrastructureBenefit(InfrastructureBenefit.ROCKETS);
     }
 
     getColonyModules(): Module[] {
@@ -258,10 +673,12 @@ class Colony extends StorageHolder {
         const multiplier = this.getProductionMultiplier();
         const productionMap: Map<number, number> = new Map();
 
-        // Only iterate over production modules
+        // Only iterate over production modules, understaffed modules produce proportionally less
         const productionModules = this.getProductionModules();
         productionModules.forEach(module => {
-            const qty = module.getQuantityPerSol() * multiplier;
+            const category = GoodsRegistry.get(module.goodId)?.category;
+            const categoryMultiplier = category ? this.getCategoryProductionMultiplier(category) : 1;
+            const qty = module.getQuantityPerSol() * multiplier * categoryMultiplier * this.getModuleEfficiency(module);
             if (productionMap.has(module.goodId)) {
                 productionMap.set(module.goodId, productionMap.get(module.goodId)! + qty);
             } else {
@@ -277,11 +694,102 @@ class Colony extends StorageHolder {
         return productionArray;
     }
 
+    getHousingCapacity(lvl?: number): number {
+        const level = lvl ?? this.getLevel();
+        const habitatHousing = this.getInfrastructureBenefit(InfrastructureBenefit.HOUSING);
+        return CONFIG.population.housingBase + CONFIG.population.housingPerLevel * (level - 1) + habitatHousing;
+    }
+
+    getWorkersNeeded(): number {
+        return this.colonyModules.reduce((total, module) => total + module.getWorkersNeeded(), 0);
+    }
+
+    /**
+     * Assigns colonists to modules in build order. A module only gets the workers left over by the modules before it.
+     */
+    getStaffing(): Map<Module, number> {
+        const staffing: Map<Module, number> = new Map();
+        let available = this.population;
+        this.colonyModules.forEach(module => {
+            const assigned = Math.min(module.getWorkersNeeded(), available);
+            staffing.set(module, assigned);
+            available -= assigned;
+        });
+        return staffing;
+    }
+
+    /**
+     * Share of its full output a module runs at, from 0 to 1: its share of the required workers times its share of power
+     */
+    getModuleEfficiency(module: Module): number {
+        const needed = module.getWorkersNeeded();
+        const staffed = needed <= 0 ? 1 : (this.getStaffing().get(module) ?? 0) / needed;
+        return staffed * this.getPoweredShare(module);
+    }
+
+    /**
+     * Goods the current population consumes per sol. Empty where life support is provided by the location.
+     */
+    getUpkeepPerSol(): { goodId: number; quantity: number }[] {
+        if (!requiresLifeSupport(this.locationId.getType())) return [];
+        return CONFIG.population.upkeepPerColonist.map(upkeep => ({
+            goodId: upkeep.goodId,
+            quantity: upkeep.quantity * this.population
+        }));
+    }
+
+    /**
+     * Stocks a newly founded colony with the upkeep its first colonists need until the first supply run arrives
+     */
+    stockStartingSupply(): void {
+        this.getUpkeepPerSol().forEach(({ goodId, quantity }) => {
+            const good = GoodsRegistry.get(goodId);
+            if (!good) return;
+            const units = Math.min(Math.ceil(quantity * CONFIG.population.startingSupplySols), this.getFreeRoomFor(good));
+            if (units > 0) {
+                this.addItemPosition(new ItemPosition(good, units));
+            }
+        });
+    }
+
+    /**
+     * Consumes one sol of upkeep from storage and grows or shrinks the population depending on how well it was supplied.
+     * Colonists without housing leave, e.g. after a Habitat was demolished or packed.
+     */
+    private updatePopulation(): void {
+        let supplied = 1;
+        this.getUpkeepPerSol().forEach(({ goodId, quantity }) => {
+            if (quantity <= 0) return;
+            const stock = this.getStock(goodId);
+            const consumed = Math.min(stock, quantity);
+            if (consumed > 0) {
+                this.reduceItemQuantity(goodId, consumed);
+            }
+            supplied = Math.min(supplied, consumed / quantity);
+        });
+
+        const housing = this.getHousingCapacity();
+        if (supplied >= 1 && this.population < housing) {
+            const growth = Math.max(1, Math.floor((housing - this.population) * CONFIG.population.growthRatePerSol));
+            this.population = Math.min(housing, this.population + growth);
+        } else if (supplied < 1) {
+            const decline = Math.ceil(this.population * CONFIG.population.declineRatePerSol * (1 - supplied));
+            this.population = Math.max(CONFIG.population.minimum, this.population - decline);
+        }
+        this.population = Math.min(this.population, housing);
+    }
+
     override getProperties(): LevelProperty[] {
+        const power = this.getPowerBudget();
         return [
             { name: "Storage Capacity", value: this.getCapacity(), increase: this.getCapacity(this.getLevel() + 1) - this.getCapacity() },
             { name: "Production Multiplier", value: parseFloat(this.getProductionMultiplier().toFixed(2)), increase: parseFloat((this.getProductionMultiplier() * 1.02 - this.getProductionMultiplier()).toFixed(2)) },
-            { name: "Colony Modules", value: this.getCompanyModulesAllowed(), increase: this.getCompanyModulesAllowed(this.getLevel() + 1) - this.getCompanyModulesAllowed() }
+            { name: "Colony Modules", value: this.getCompanyModulesAllowed(), increase: this.getCompanyModulesAllowed(this.getLevel() + 1) - this.getCompanyModulesAllowed() },
+            { name: "Population", value: this.population, increase: 0 },
+            { name: "Housing", value: this.getHousingCapacity(), increase: this.getHousingCapacity(this.getLevel() + 1) - this.getHousingCapacity() },
+            { name: "Workers Needed", value: this.getWorkersNeeded(), increase: 0 },
+            { name: "Power Supply (kW)", value: Math.floor(power.supply), increase: 0 },
+            { name: "Power Demand (kW)", value: Math.ceil(power.demand), increase: 0 }
         ];
     }
 
@@ -290,14 +798,16 @@ class Colony extends StorageHolder {
             colonyId: this.colonyId,
             name: this.name,
             location: (this.locationId as SpaceLocationClass).toData(),
-            colonyModules: this.colonyModules.map(module => ({
-                type: module.moduleType,
-                ...module.toData()
-            })),
+            colonyModules: this.colonyModules.map(module => Colony.moduleToData(module)),
             storage: {
                 items: this.getItemPositions().map(item => item.toData()),
                 level: this.getLevel()
-            }
+            },
+            productionProgress: Object.fromEntries(this.productionProgress),
+            storageReservations: Object.fromEntries(this.storageReservations),
+            storageLosses: this.storageLosses,
+            overflowPolicy: this.overflowPolicy,
+            population: this.population
         };
     }
 
@@ -306,37 +816,245 @@ class Colony extends StorageHolder {
         const colony = new Colony(data.colonyId, data.name, location, data.storage?.level ?? 1, []);
         const items = (data.storage?.items ?? []).map((item: any) => ItemPosition.fromData(item, goodsRegistry));
         colony.setItems(items);
-        const entries = data.colonyModules ?? [];
-        colony.colonyModules = entries.map((entry: any) => {
-            // Check module type to deserialize correctly
-            if (entry.type === ModuleType.INFRASTRUCTURE) {
-                return new InfrastructureModule(entry.infrastructureId, entry.level ?? 1);
-            } else {
-                // Default to ProductionModule for backwards compatibility
-                return new ProductionModule(entry.goodId, entry.level ?? 1);
-            }
+        colony.population = data.population ?? CONFIG.population.initial;
+        colony.overflowPolicy = data.overflowPolicy ?? OverflowPolicy.DISCARD;
+        Object.entries(data.productionProgress ?? {}).forEach(([goodId, progress]) => {
+            colony.productionProgress.set(Number(goodId), Number(progress));
+        });
+        Object.entries(data.storageReservations ?? {}).forEach(([goodId, quantity]) => {
+            colony.storageReservations.set(Number(goodId), Number(quantity));
         });
+        colony.storageLosses = (data.storageLosses ?? []).map((loss: any) => ({
+            sol: Number(loss.sol),
+            goodId: Number(loss.goodId),
+            quantity: Number(loss.quantity),
+            ...(loss.earned !== undefined ? { earned: Number(loss.earned) } : {})
+        }));
+        colony.colonyModules = (data.colonyModules ?? []).map((entry: any) => Colony.moduleFromData(entry));
         return colony;
     }
 
-    tick(solsPassed: number) {}
-
-    endOfSolUpdate() {
-        this.getTotalProductionPerSol().forEach(prod => {
-            const producedAmount = prod.quantity;
-            if (producedAmount > 0) {
-                const good = GoodsRegistry.get(prod.goodId);
-                if (good) {
-                    let success = this.addItemPosition(new ItemPosition(good, producedAmount));
-                    if (!success) {
-                        // Handle overflow, e.g. by selling excess goods or storing them in a lost-and-found
-                        let freeRoom = this.getCapacity() - this.getTotalQuantity();
-                        this.addItemPosition(new ItemPosition(good, freeRoom));
-                        console.log(`Colony ${this.name} produced ${producedAmount} of ${good.name}, but storage is full! Excess goods are lost.`);
-                    }
+    /**
+     * A module's save data with its type
+     */
+    private static moduleToData(module: Module): any {
+        return {
+            type: module.moduleType,
+            ...module.toData()
+        };
+    }
+
+    /**
+     * Reads a module saved with its type, as in a colony's save data or a packed module
+     */
+    private static moduleFromData(entry: any): Module {
+        // Check module type to deserialize correctly
+        const module = entry.type === ModuleType.INFRASTRUCTURE
+            ? new InfrastructureModule(entry.infrastructureId, entry.level ?? 1)
+            // Default to ProductionModule for backwards compatibility
+            : new ProductionModule(entry.goodId, entry.level ?? 1);
+        module.powerPriority = entry.powerPriority ?? PowerPriority.NORMAL;
+        return module;
+    }
+
+    /**
+     * Accrues production for a fraction of a sol. Whole units are moved into storage as soon
+     * as they complete; units that do not fit into the remaining capacity are lost.
+     * Goods with a recipe consume their inputs from storage per unit and stall while inputs are missing.
+     * Fuel cells burn their inputs for the power they supplied.
+     */
+    tick(solsPassed: number): void {
+        this.tickPowerBudget = this.computePowerBudget();
+        this.getTotalProductionPerSol().forEach(({ goodId, quantity }) => {
+            const good = GoodsRegistry.get(goodId);
+            if (!good || quantity <= 0) return;
+
+            const progress = (this.productionProgress.get(goodId) ?? 0) + quantity * solsPassed;
+            let completedUnits = Math.floor(progress);
+
+            this.stallReasons.delete(goodId);
+            if (good.recipe) {
+                const missing = good.recipe.inputs.filter(input => this.getStock(input.goodId) < input.quantity);
+                const affordableUnits = Math.min(
+                    ...good.recipe.inputs.map(input => Math.floor(this.getStock(input.goodId) / input.quantity))
+                );
+                if (missing.length > 0) {
+                    const names = missing.map(input => GoodsRegistry.get(input.goodId)?.name ?? `Good #${input.goodId}`);
+                    this.stallReasons.set(goodId, `Missing ${names.join(', ')}`);
+                }
+                completedUnits = Math.min(completedUnits, affordableUnits);
+            }
+
+            // Paused modules only finish the units that fit into their storage class
+            if (this.overflowPolicy === OverflowPolicy.PAUSE) {
+                const room = Math.floor(this.getFreeRoomFor(good));
+                if (room < 1) {
+                    this.stallReasons.set(goodId, `Paused, ${StorageClass.describe(good.storageClass)} storage is full`);
                 }
+                completedUnits = Math.min(completedUnits, room);
             }
+
+            // A stalled module keeps at most one finished unit waiting for its inputs
+            this.productionProgress.set(goodId, Math.min(progress - completedUnits, 1));
+            if (completedUnits === 0) return;
+
+            good.recipe?.inputs.forEach(input => this.reduceItemQuantity(input.goodId, input.quantity * completedUnits));
+
+            this.storeProduced(good, completedUnits);
+            good.recipe?.byproducts?.forEach(byproduct => {
+                const byproductGood = GoodsRegistry.get(byproduct.goodId);
+                if (byproductGood) {
+                    this.storeProduced(byproductGood, byproduct.quantity * completedUnits);
+                }
+            });
+        });
+
+        this.burnFuelCellInputs(solsPassed);
+        this.tickPowerBudget = null;
+    }
+
+    /**
+     * Stores freshly produced units as far as the good's storage class allows and records them in the running sol's tally.
+     * Units without room are lost, or left for the simulation to sell or ship, depending on the overflow policy.
+     */
+    private storeProduced(good: Good, units: number): void {
+        let freeRoom = Math.floor(this.getFreeRoomFor(good));
+        if (units > freeRoom && this.overflowPolicy === OverflowPolicy.DISCARD_CHEAPEST) {
+            this.discardCheaperGoods(good, units - freeRoom);
+            freeRoom = Math.floor(this.getFreeRoomFor(good));
+        }
+
+        const storedUnits = Math.min(units, freeRoom);
+        if (storedUnits > 0) {
+            this.addItemPosition(new ItemPosition(good, storedUnits));
+        }
+        this.addToTally(good.getId(), { quantity: storedUnits });
+
+        const overflowUnits = units - storedUnits;
+        if (overflowUnits <= 0) return;
+        if (this.overflowPolicy === OverflowPolicy.SELL || this.overflowPolicy === OverflowPolicy.SHIP) {
+            this.overflow.set(good.getId(), (this.overflow.get(good.getId()) ?? 0) + overflowUnits);
+        } else {
+            this.addToTally(good.getId(), { lost: overflowUnits });
+        }
+    }
+
+    /**
+     * Throws away stock of cheaper goods of the same storage class, cheapest first, to make room for a good.
+     * Goods with reserved room are kept.
+     */
+    private discardCheaperGoods(good: Good, needed: number): void {
+        const cheaper = this.getItemPositions()
+            .filter(item => item.good.storageClass === good.storageClass && item.good.marketSellPrice < good.marketSellPrice)
+            .filter(item => item.quantity > 0 && this.getStorageReservation(item.good.getId()) <= 0)
+            .sort((a, b) => a.good.marketSellPrice - b.good.marketSellPrice);
+
+        let remaining = needed;
+        for (const item of cheaper) {
+            if (remaining <= 0) break;
+            const discarded = Math.min(item.quantity, remaining);
+            this.reduceItemQuantity(item.good.getId(), discarded);
+            this.addToTally(item.good.getId(), { lost: discarded });
+            remaining -= discarded;
+        }
+    }
+
+    /**
+     * Hands the units the SELL and SHIP policies still have to deal with to the simulation and clears them
+     */
+    takeOverflow(): Map<number, number> {
+        const overflow = this.overflow;
+        this.overflow = new Map();
+        return overflow;
+    }
+
+    /**
+     * Adds to the running sol's tally of a good, for example what the simulation sold, shipped or lost of the overflow
+     */
+    addToTally(goodId: number, amounts: Partial<SolTally>): void {
+        const tally = this.solTally.get(goodId) ?? { quantity: 0, lost: 0, sold: 0, earned: 0, shipped: 0 };
+        tally.quantity += amounts.quantity ?? 0;
+        tally.lost += amounts.lost ?? 0;
+        tally.sold += amounts.sold ?? 0;
+        tally.earned += amounts.earned ?? 0;
+        tally.shipped += amounts.shipped ?? 0;
+        this.solTally.set(goodId, tally);
+    }
+
+    /**
+     * What the previous sol's overflow came to per good: lost, sold or shipped. Goods without overflow are left out.
+     */
+    getLastSolOverflow(): ({ goodId: number } & SolTally)[] {
+        return Array.from(this.lastSolTally.entries())
+            .filter(([, tally]) => tally.lost > 0 || tally.sold > 0 || tally.shipped > 0)
+            .map(([goodId, tally]) => ({ goodId, ...tally }));
+    }
+
+    private getStock(goodId: number): number {
+        return this.getItemPositions().find(item => item.good.getId() === goodId)?.quantity ?? 0;
+    }
+
+    /**
+     * Why production of a good is currently stalled, or null if it is running
+     */
+    getStallReason(goodId: number): string | null {
+        return this.stallReasons.get(goodId) ?? null;
+    }
+
+    /**
+     * Total units produced per sol across all goods
+     */
+    getFillRatePerSol(): number {
+        return this.getTotalProductionPerSol().reduce((total, prod) => total + prod.quantity, 0);
+    }
+
+    /**
+     * Sols until the first storage class fills up at the current production rate, or null if nothing is produced
+     */
+    getSolsUntilFull(): number | null {
+        const rates: Map<StorageClass, number> = new Map();
+        this.getTotalProductionPerSol().forEach(({ goodId, quantity }) => {
+            const storageClass = GoodsRegistry.get(goodId)?.storageClass;
+            if (storageClass && quantity > 0) rates.set(storageClass, (rates.get(storageClass) ?? 0) + quantity);
         });
+        if (rates.size === 0) return null;
+
+        return Math.min(...Array.from(rates.entries()).map(([storageClass, rate]) =>
+            Math.max(0, this.getClassCapacity(storageClass) - this.getClassQuantity(storageClass)) / rate));
+    }
+
+    /**
+     * Adds an entry to the colony's loss report, which keeps the most recent losses
+     */
+    recordStorageLoss(sol: number, goodId: number, quantity: number): void {
+        this.storageLosses.push({ sol, goodId, quantity });
+        if (this.storageLosses.length > CONFIG.storage.lossLogLength) {
+            this.storageLosses.splice(0, this.storageLosses.length - CONFIG.storage.lossLogLength);
+        }
+    }
+
+    /**
+     * The loss report, most recent first
+     */
+    getStorageLosses(): StorageLoss[] {
+        return [...this.storageLosses].reverse();
+    }
+
+    /**
+     * Closes the current sol: the population consumes its upkeep and grows or shrinks.
+     * Returns the quantity stored and the amount lost to a full storage per good since the previous
+     * sol boundary; production itself already happened in tick().
+     */
+    endOfSolUpdate(): { goodId: number; quantity: number; lost: number }[] {
+        const summary: { goodId: number; quantity: number; lost: number }[] = [];
+        this.solTally.forEach((tally, goodId) => {
+            summary.push({ goodId, quantity: tally.quantity, lost: tally.lost });
+        });
+        this.lastSolTally = this.solTally;
+        this.solTally = new Map();
+
+        this.updatePopulation();
+        return summary;
     }
 }
 
@@ -346,6 +1064,8 @@ class Company extends LevelSystem {
     name: string;
     credits: number;
     colonies: Colony[];
+    research: Research = new Research();
+    private xp: number = 0; // Experience collected towards the next level
 
     constructor(id: string, name: string) {
         super(1);
@@ -356,7 +1076,58 @@ class Company extends LevelSystem {
     }
     
     onUpgrade(): void {
-        // Maybe nothing for company level yet? or reputation?
+        // Milestone rewards are looked up from the level, nothing to apply here
+    }
+
+    getXp(): number {
+        return this.xp;
+    }
+
+    /**
+     * Experience needed to reach the level after the given one
+     */
+    getXpForNextLevel(lvl?: number): number {
+        const level = lvl ?? this.getLevel();
+        return Math.floor(CONFIG.company.xpBase * Math.pow(CONFIG.company.xpGrowth, level - 1));
+    }
+
+    /**
+     * Adds experience and raises the level as often as it fills up. Returns the milestones reached.
+     */
+    addXp(amount: number): CompanyMilestone[] {
+        const startLevel = this.getLevel();
+        this.xp += Math.max(0, amount);
+        while (!this.isMaxLevel() && this.xp >= this.getXpForNextLevel()) {
+            this.xp -= this.getXpForNextLevel();
+            this.incrementLevel();
+        }
+        return COMPANY_MILESTONES.filter(m => m.level > startLevel && m.level <= this.getLevel());
+    }
+
+    getReachedMilestones(): CompanyMilestone[] {
+        return COMPANY_MILESTONES.filter(m => m.level <= this.getLevel());
+    }
+
+    getUpcomingMilestones(): CompanyMilestone[] {
+        return COMPANY_MILESTONES.filter(m => m.level > this.getLevel());
+    }
+
+    isInfrastructureUnlocked(infrastructureId: InfrastructureType): boolean {
+        return COMPANY_MILESTONES.every(m =>
+            m.level <= this.getLevel() || !m.rewards.unlockInfrastructure?.includes(infrastructureId));
+    }
+
+    /**
+     * A location can be explored once both the company level and the research allow it
+     */
+    isLocationUnlocked(locationType: LocationType): boolean {
+        const levelAllows = COMPANY_MILESTONES.every(m =>
+            m.level <= this.getLevel() || !m.rewards.unlockLocations?.includes(locationType));
+        return levelAllows && this.research.isLocationUnlocked(locationType);
+    }
+
+    getRocketLabsAllowed(): number {
+        return Math.max(1, ...this.getReachedMilestones().map(m => m.rewards.rocketLabsPerColony ?? 1));
     }
     
     getMoney(): number {
@@ -380,30 +1151,49 @@ class Company extends LevelSystem {
     }
     
     addColony(colony: Colony) {
+        colony.company = this;
         this.colonies.push(colony);
     }
 
+    /**
+     * Price of exploring a new location. Every colony makes the next one more expensive, research makes it cheaper.
+     */
+    getExplorationPrice(): number {
+        const exponent = Math.max(0, this.colonies.length - 1);
+        const price = CONFIG.exploration.basePrice * Math.pow(CONFIG.exploration.priceGrowth, exponent);
+        return Math.floor(price * (1 - this.research.getExplorationDiscount()));
+    }
+
     toData() {
         return {
             id: this.id,
             name: this.name,
             credits: this.credits,
             level: this.getLevel(),
-            colonies: this.colonies.map(colony => colony.toData())
+            xp: this.xp,
+            colonies: this.colonies.map(colony => colony.toData()),
+            research: this.research.toData()
         };
     }
 
     override getProperties(): LevelProperty[] {
-        return [];
+        return [
+            { name: "Experience", value: Math.floor(this.xp), increase: 0 },
+            { name: "Next Level At", value: this.getXpForNextLevel(), increase: this.getXpForNextLevel(this.getLevel() + 1) - this.getXpForNextLevel() },
+            { name: "Rocket Labs per Colony", value: this.getRocketLabsAllowed(), increase: 0 }
+        ];
     }
 
     static fromData(data: any, goodsRegistry: Map<number, Good>): Company {
         const company = new Company(data.id, data.name);
         company.credits = data.credits ?? company.credits;
         company.setLevel(data.level ?? 1);
-        company.colonies = (data.colonies ?? []).map((col: any) => Colony.fromData(col, goodsRegistry));
+        company.xp = data.xp ?? 0;
+        company.research = Research.fromData(data.research);
+        (data.colonies ?? []).forEach((col: any) => company.addColony(Colony.fromData(col, goodsRegistry)));
         return company;
     }
 }
 
-export { Colony, Company, ProductionModule, InfrastructureModule, Module, ModuleType, InfrastructureType, INFRASTRUCTURE_CONFIGS };
+export { Colony, Company, ProductionModule, InfrastructureModule, Module, ModuleType, PowerPriority, OverflowPolicy, InfrastructureType, InfrastructureBenefit, INFRASTRUCTURE_CONFIGS, COMPANY_MILESTONES };
+export type { CompanyMilestone, MilestoneRewards, PowerBudget, StorageLoss, SolTally };
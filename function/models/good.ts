@@ -11,6 +11,38 @@ enum Category {
     ISRU = "ISRU"
 }
 
+/**
+ * How a good has to be stored. Colonies keep a separate part of their storage for every class.
+ */
+enum StorageClass {
+    BULK = "bulk",             // Bulk solids
+    LIQUID = "liquid",
+    GAS = "gas",
+    CRYOGENIC = "cryogenic",   // Kept deep cold
+    FRAGILE = "fragile"        // Fragile electronics and instruments
+}
+
+namespace StorageClass {
+    export function describe(storageClass: StorageClass): string {
+        switch (storageClass) {
+            case StorageClass.BULK:
+                return "Bulk Solids";
+            case StorageClass.LIQUID:
+                return "Liquids";
+            case StorageClass.GAS:
+                return "Gases";
+            case StorageClass.CRYOGENIC:
+                return "Cryogenic";
+            case StorageClass.FRAGILE:
+                return "Fragile Goods";
+            default:
+                return "Storage";
+        }
+    }
+}
+
+const STORAGE_CLASSES: StorageClass[] = [StorageClass.BULK, StorageClass.LIQUID, StorageClass.GAS, StorageClass.CRYOGENIC, StorageClass.FRAGILE];
+
 enum ProductionRequirement {
     EVERYWHERE = 0,
     EARTH_ONLY = 1,
@@ -39,44 +71,89 @@ namespace ProductionRequirement {
                 return false;
         }
     }
+
+    export function describe(requirement: ProductionRequirement): string {
+        switch (requirement) {
+            case ProductionRequirement.EARTH_ONLY:
+                return "Earth only";
+            case ProductionRequirement.MARS_ONLY:
+                return "Mars only";
+            case ProductionRequirement.MOON_ONLY:
+                return "Moon only";
+            case ProductionRequirement.SPACE_ONLY:
+                return "Space stations only";
+            case ProductionRequirement.LOW_GRAVITY_ONLY:
+                return "Low gravity only";
+            default:
+                return "Anywhere";
+        }
+    }
 }
 
+/**
+ * A good consumed or co-produced by a recipe. The quantity is per produced unit of the recipe's good.
+ */
+type RecipeComponent = {
+    goodId: number;
+    quantity: number;
+};
+
+/**
+ * Inputs a production module takes from colony storage for each unit it produces,
+ * and byproducts that are stored alongside the output.
+ */
+type Recipe = {
+    inputs: RecipeComponent[];
+    byproducts?: RecipeComponent[];
+};
 
 class Good {
     private id: number;
     name: string;
     category: Category;
+    icon: string; // Material Symbols icon name
     productionRequirement: ProductionRequirement;
+    storageClass: StorageClass;
     baseProductionPerSol: number = 1; // Base production per sol for this good (can be modified by colony modules, etc.)
     marketBuyPrice: number;
     marketSellPrice: number;
+    recipe: Recipe | null; // null for raw goods that are produced from nothing
 
     constructor(
         id: number, 
         name: string, 
         category: Category, 
         options: {
+            icon?: string;
             baseProductionPerSol?: number;
             productionRequirement?: ProductionRequirement;
+            storageClass?: StorageClass;
             marketBuyPrice?: number;
             marketSellPrice?: number;
+            recipe?: Recipe;
         } = {}
     ) {
         this.id = id;
         this.name = name;
         this.category = category;
+        this.icon = options.icon ?? CONFIG.goods.defaultIcon;
         this.baseProductionPerSol = options.baseProductionPerSol ?? CONFIG.goods.defaultProductionPerSol;
         this.productionRequirement = options.productionRequirement ?? ProductionRequirement.EVERYWHERE;
+        this.storageClass = options.storageClass ?? StorageClass.BULK;
         this.marketBuyPrice = options.marketBuyPrice ?? CONFIG.goods.defaultBuyPrice;
         this.marketSellPrice = options.marketSellPrice ?? CONFIG.goods.defaultSellPrice;
+        this.recipe = options.recipe ?? null;
     }
 
     static fromData(data: any): Good {
         return new Good(data.id, data.name, data.category as Category, {
+            icon: data.icon,
             baseProductionPerSol: data.baseProductionPerSol,
             productionRequirement: data.productionRequirement as ProductionRequirement,
+            storageClass: data.storageClass as StorageClass,
             marketBuyPrice: data.marketBuyPrice,
-            marketSellPrice: data.marketSellPrice
+            marketSellPrice: data.marketSellPrice,
+            recipe: data.recipe ?? undefined
         });
     }
 
@@ -85,10 +162,13 @@ class Good {
             id: this.id,
             name: this.name,
             category: this.category,
+            icon: this.icon,
             baseProductionPerSol: this.baseProductionPerSol,
             productionRequirement: this.productionRequirement,
+            storageClass: this.storageClass,
             marketBuyPrice: this.marketBuyPrice,
-            marketSellPrice: this.marketSellPrice
+            marketSellPrice: this.marketSellPrice,
+            recipe: this.recipe
         };
     }
 
@@ -123,4 +203,5 @@ class ItemPosition {
 
 }
 
-export { Good, Category, ItemPosition, ProductionRequirement };
\ No newline at end of file
+export { Good, Category, ItemPosition, ProductionRequirement, StorageClass, STORAGE_CLASSES };
+export type { Recipe, RecipeComponent };
\ No newline at end of file
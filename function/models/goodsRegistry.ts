@@ -1,12 +1,15 @@
-import { Category, Good, ProductionRequirement } from "./good";
+import { Category, Good, ProductionRequirement, StorageClass } from "./good";
 
 // Define all goods with their complete data in one place
 // This makes it easy to add, modify, or remove goods
 const GOODS_DATA = [
+    // Basic supplies
     {
         id: 1,
         name: "Food",
         category: Category.Food,
+        icon: "dining",
+        storageClass: StorageClass.BULK,
         baseProductionPerSol: 1.5,
         marketBuyPrice: 50,
         marketSellPrice: 40
@@ -15,6 +18,8 @@ const GOODS_DATA = [
         id: 2,
         name: "Water",
         category: Category.Food,
+        icon: "water_drop",
+        storageClass: StorageClass.LIQUID,
         baseProductionPerSol: 1.2,
         marketBuyPrice: 40,
         marketSellPrice: 25
@@ -23,14 +28,35 @@ const GOODS_DATA = [
         id: 3,
         name: "Fuel",
         category: Category.Fuel,
+        icon: "oil_barrel",
+        storageClass: StorageClass.CRYOGENIC,
         baseProductionPerSol: 1,
         marketBuyPrice: 100,
-        marketSellPrice: 70
+        marketSellPrice: 70,
+        // Electrolysis: water is split into hydrogen fuel and oxygen
+        recipe: {
+            inputs: [{ goodId: 2, quantity: 2 }],
+            byproducts: [{ goodId: 7, quantity: 0.5 }]
+        }
     },
+    {
+        id: 7,
+        name: "O2",
+        category: Category.Fuel,
+        icon: "spo2",
+        storageClass: StorageClass.GAS,
+        baseProductionPerSol: 1.2,
+        marketBuyPrice: 80,
+        marketSellPrice: 50
+    },
+
+    // Electronics (Earth manufacturing)
     {
         id: 4,
         name: "Computer",
         category: Category.Electronics,
+        icon: "computer",
+        storageClass: StorageClass.FRAGILE,
         baseProductionPerSol: 0.8,
         productionRequirement: ProductionRequirement.EARTH_ONLY,
         marketBuyPrice: 500,
@@ -40,6 +66,8 @@ const GOODS_DATA = [
         id: 5,
         name: "Circuit Board",
         category: Category.Electronics,
+        icon: "memory",
+        storageClass: StorageClass.FRAGILE,
         baseProductionPerSol: 0.6,
         productionRequirement: ProductionRequirement.EARTH_ONLY,
         marketBuyPrice: 300,
@@ -49,18 +77,205 @@ const GOODS_DATA = [
         id: 6,
         name: "Solar Panel",
         category: Category.Electronics,
+        icon: "solar_power",
+        storageClass: StorageClass.FRAGILE,
         baseProductionPerSol: 1,
         productionRequirement: ProductionRequirement.EARTH_ONLY,
         marketBuyPrice: 400,
         marketSellPrice: 280
     },
+
+    // In-situ resource utilization
     {
-        id: 7,
-        name: "O2",
+        id: 10,
+        name: "Regolith",
+        category: Category.ISRU,
+        icon: "landslide",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 4,
+        productionRequirement: ProductionRequirement.LOW_GRAVITY_ONLY,
+        marketBuyPrice: 20,
+        marketSellPrice: 10
+    },
+    {
+        id: 11,
+        name: "Ice",
+        category: Category.ISRU,
+        icon: "ac_unit",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 2,
+        productionRequirement: ProductionRequirement.MARS_ONLY,
+        marketBuyPrice: 60,
+        marketSellPrice: 35
+    },
+    {
+        id: 13,
+        name: "Steel",
+        category: Category.ISRU,
+        icon: "construction",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 0.8,
+        marketBuyPrice: 180,
+        marketSellPrice: 120,
+        recipe: {
+            inputs: [{ goodId: 10, quantity: 4 }]
+        }
+    },
+    {
+        id: 14,
+        name: "Habitat Panel",
+        category: Category.ISRU,
+        icon: "roofing",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 0.5,
+        productionRequirement: ProductionRequirement.LOW_GRAVITY_ONLY,
+        marketBuyPrice: 900,
+        marketSellPrice: 650,
+        recipe: {
+            inputs: [
+                { goodId: 13, quantity: 2 },
+                { goodId: 10, quantity: 3 }
+            ]
+        }
+    },
+    {
+        id: 8,
+        name: "Life Support System",
+        category: Category.ISRU,
+        icon: "air",
+        storageClass: StorageClass.FRAGILE,
+        baseProductionPerSol: 0.3,
+        marketBuyPrice: 1500,
+        marketSellPrice: 1100,
+        recipe: {
+            inputs: [
+                { goodId: 5, quantity: 1 },
+                { goodId: 6, quantity: 1 },
+                { goodId: 7, quantity: 2 }
+            ]
+        }
+    },
+
+    // Fuel from off-world sources
+    {
+        id: 12,
+        name: "Helium-3",
         category: Category.Fuel,
-        baseProductionPerSol: 1.2,
-        marketBuyPrice: 80,
-        marketSellPrice: 50
+        icon: "bubble_chart",
+        storageClass: StorageClass.GAS,
+        baseProductionPerSol: 0.2,
+        productionRequirement: ProductionRequirement.MOON_ONLY,
+        marketBuyPrice: 4000,
+        marketSellPrice: 3000,
+        recipe: {
+            inputs: [{ goodId: 10, quantity: 20 }]
+        }
+    },
+
+    // Science
+    {
+        id: 9,
+        name: "Rover",
+        category: Category.Science,
+        icon: "directions_car",
+        storageClass: StorageClass.FRAGILE,
+        baseProductionPerSol: 0.2,
+        marketBuyPrice: 2500,
+        marketSellPrice: 1800,
+        recipe: {
+            inputs: [
+                { goodId: 4, quantity: 1 },
+                { goodId: 6, quantity: 2 },
+                { goodId: 3, quantity: 2 }
+            ]
+        }
+    },
+    {
+        id: 15,
+        name: "Microgravity Crystal",
+        category: Category.Science,
+        icon: "diamond",
+        storageClass: StorageClass.FRAGILE,
+        baseProductionPerSol: 0.4,
+        productionRequirement: ProductionRequirement.SPACE_ONLY,
+        marketBuyPrice: 3500,
+        marketSellPrice: 2600,
+        recipe: {
+            inputs: [
+                { goodId: 5, quantity: 0.5 },
+                { goodId: 2, quantity: 1 }
+            ]
+        }
+    },
+    {
+        id: 16,
+        name: "Research Sample",
+        category: Category.Science,
+        icon: "science",
+        storageClass: StorageClass.CRYOGENIC,
+        baseProductionPerSol: 0.3,
+        productionRequirement: ProductionRequirement.MARS_ONLY,
+        marketBuyPrice: 1800,
+        marketSellPrice: 1400
+    },
+
+    // Consumer goods
+    {
+        id: 17,
+        name: "Textiles",
+        category: Category.Clothing,
+        icon: "checkroom",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 1.5,
+        marketBuyPrice: 70,
+        marketSellPrice: 45
+    },
+    {
+        id: 18,
+        name: "Spacesuit",
+        category: Category.Clothing,
+        icon: "accessibility_new",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 0.3,
+        productionRequirement: ProductionRequirement.EARTH_ONLY,
+        marketBuyPrice: 1200,
+        marketSellPrice: 850,
+        recipe: {
+            inputs: [
+                { goodId: 17, quantity: 3 },
+                { goodId: 5, quantity: 1 }
+            ]
+        }
+    },
+    {
+        id: 19,
+        name: "Furniture Kit",
+        category: Category.Furniture,
+        icon: "chair",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 0.6,
+        marketBuyPrice: 350,
+        marketSellPrice: 240,
+        recipe: {
+            inputs: [
+                { goodId: 13, quantity: 1 },
+                { goodId: 17, quantity: 1 }
+            ]
+        }
+    },
+    {
+        id: 20,
+        name: "Regolith Furniture",
+        category: Category.Furniture,
+        icon: "weekend",
+        storageClass: StorageClass.BULK,
+        baseProductionPerSol: 0.5,
+        productionRequirement: ProductionRequirement.LOW_GRAVITY_ONLY,
+        marketBuyPrice: 600,
+        marketSellPrice: 450,
+        recipe: {
+            inputs: [{ goodId: 10, quantity: 6 }]
+        }
     }
 ];
 
@@ -69,10 +284,13 @@ export const GoodsRegistry = new Map<number, Good>();
 
 for (const data of GOODS_DATA) {
     const good = new Good(data.id, data.name, data.category, {
+        icon: data.icon,
         baseProductionPerSol: data.baseProductionPerSol,
         productionRequirement: data.productionRequirement,
+        storageClass: data.storageClass,
         marketBuyPrice: data.marketBuyPrice,
-        marketSellPrice: data.marketSellPrice
+        marketSellPrice: data.marketSellPrice,
+        recipe: data.recipe
     });
     GoodsRegistry.set(data.id, good);
 }
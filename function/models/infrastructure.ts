@@ -0,0 +1,272 @@
+import { LocationType } from "./location";
+import { Category, StorageClass } from "./good";
+
+// the number is the id stored in saves, new types are appended
+enum InfrastructureType {
+    // Allow for docking more rockets, producing is unlocked at lvl 1
+    ROCKET_LAB = 0,
+    STOREROOM = 1,
+    // Houses additional colonists, unlocked by a company milestone
+    HABITAT = 2,
+    SOLAR_FARM = 3,
+    POWER_PLANT = 4,
+    SPACEPORT = 5,
+    RESEARCH_LAB = 6,
+    REFINERY = 7,
+    GREENHOUSE = 8,
+    FUEL_CELL = 9,
+    TANK_FARM = 10,
+    GAS_TANKS = 11,
+    CRYO_VAULT = 12,
+    CLEAN_STORE = 13
+}
+
+/**
+ * What an infrastructure module adds to its colony
+ */
+enum InfrastructureBenefit {
+    ROCKETS = "rockets",        // Rockets the colony can build
+    STORAGE = "storage",        // Storage capacity, shared out over the storage classes
+    CLASS_STORAGE = "classStorage", // Storage capacity for the goods of one storage class
+    HOUSING = "housing",        // Colonists housed
+    POWER = "power",            // Power supplied to the colony
+    LAUNCH_FUEL = "launchFuel", // Share of the fuel saved on launches from the colony
+    PRODUCTION = "production"   // Share added to the output of the goods of one category
+}
+
+/**
+ * How a benefit grows with the module level
+ */
+type BenefitCurve =
+    | { kind: "step"; base: number; levelsPerStep: number }   // base + one per levelsPerStep levels
+    | { kind: "linear"; base: number; perLevel: number }      // base at level 1, perLevel more per level
+    | { kind: "exponential"; base: number; factor: number }   // base at level 1, times factor per level
+    | { kind: "saturating"; max: number; halfLevel: number }; // approaches max, half of it at halfLevel
+
+/**
+ * How a POWER module generates: steady around the clock, from sunlight, or by burning goods when the grid needs it
+ */
+type GeneratorKind = "steady" | "solar" | "fuelCell";
+
+type InfrastructureDefinition = {
+    type: InfrastructureType;
+    name: string;
+    description: string;
+    color: string;
+    icon: string;
+    benefit: InfrastructureBenefit;
+    benefitLabel: string;
+    curve: BenefitCurve;
+    percent?: boolean;              // The benefit is a share, shown as a percentage
+    category?: Category;            // Goods a PRODUCTION benefit applies to
+    storageClass?: StorageClass;    // Goods a CLASS_STORAGE benefit applies to
+    generator?: GeneratorKind;      // How a POWER benefit is generated
+    drawsPower: boolean;            // Draws from the colony's power budget and loses its benefit in a brownout
+    locations: LocationType[] | null; // Location types it can be built at, null for anywhere
+};
+
+// Define all infrastructure in one place, like the goods catalog
+const INFRASTRUCTURE_DATA: InfrastructureDefinition[] = [
+    {
+        type: InfrastructureType.ROCKET_LAB,
+        name: "Rocket Lab",
+        description: "Builds and docks rockets.",
+        color: "#4a90e2",
+        icon: "rocket_launch",
+        benefit: InfrastructureBenefit.ROCKETS,
+        benefitLabel: "Rockets Allowed",
+        curve: { kind: "step", base: 1, levelsPerStep: 10 },
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.STOREROOM,
+        name: "Storeroom",
+        description: "Adds storage capacity.",
+        color: "#60c531",
+        icon: "package_2",
+        benefit: InfrastructureBenefit.STORAGE,
+        benefitLabel: "Storage Capacity",
+        curve: { kind: "exponential", base: 200, factor: 1.2 },
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.HABITAT,
+        name: "Habitat",
+        description: "Houses more colonists.",
+        color: "#d9a441",
+        icon: "bedroom_parent",
+        benefit: InfrastructureBenefit.HOUSING,
+        benefitLabel: "Housing",
+        curve: { kind: "linear", base: 10, perLevel: 5 },
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.SOLAR_FARM,
+        name: "Solar Farm",
+        description: "Solar panels that add to the colony's power budget while the sun is up.",
+        color: "#f2c94c",
+        icon: "solar_power",
+        benefit: InfrastructureBenefit.POWER,
+        benefitLabel: "Power (kW)",
+        curve: { kind: "linear", base: 20, perLevel: 8 },
+        generator: "solar",
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.POWER_PLANT,
+        name: "Power Plant",
+        description: "A compact fission reactor with steady output, day or night.",
+        color: "#eb5757",
+        icon: "bolt",
+        benefit: InfrastructureBenefit.POWER,
+        benefitLabel: "Power (kW)",
+        curve: { kind: "exponential", base: 60, factor: 1.1 },
+        generator: "steady",
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.SPACEPORT,
+        name: "Spaceport",
+        description: "Launch pads and propellant depots. Launches from the colony burn less fuel.",
+        color: "#9b51e0",
+        icon: "flight_takeoff",
+        benefit: InfrastructureBenefit.LAUNCH_FUEL,
+        benefitLabel: "Launch Fuel Saved (%)",
+        curve: { kind: "saturating", max: 0.5, halfLevel: 10 },
+        percent: true,
+        drawsPower: true,
+        locations: null
+    },
+    {
+        type: InfrastructureType.RESEARCH_LAB,
+        name: "Research Lab",
+        description: "Analysis benches for the colony's Science production. Produces nothing itself: raises the output of the colony's Rover, Microgravity Crystal and Research Sample modules.",
+        color: "#56ccf2",
+        icon: "science",
+        benefit: InfrastructureBenefit.PRODUCTION,
+        benefitLabel: "Science Output (%)",
+        curve: { kind: "saturating", max: 1, halfLevel: 20 },
+        percent: true,
+        category: Category.Science,
+        drawsPower: true,
+        locations: null
+    },
+    {
+        type: InfrastructureType.REFINERY,
+        name: "Refinery",
+        description: "Cracks and purifies propellants. Raises the colony's output of Fuel goods.",
+        color: "#bb6bd9",
+        icon: "propane_tank",
+        benefit: InfrastructureBenefit.PRODUCTION,
+        benefitLabel: "Fuel Output (%)",
+        curve: { kind: "saturating", max: 1, halfLevel: 20 },
+        percent: true,
+        category: Category.Fuel,
+        drawsPower: true,
+        locations: [LocationType.MOON, LocationType.MARS, LocationType.SPACE_STATION]
+    },
+    {
+        type: InfrastructureType.GREENHOUSE,
+        name: "Greenhouse",
+        description: "Pressurised farms under grow lights. Raises the colony's output of Food goods.",
+        color: "#27ae60",
+        icon: "potted_plant",
+        benefit: InfrastructureBenefit.PRODUCTION,
+        benefitLabel: "Food Output (%)",
+        curve: { kind: "saturating", max: 1, halfLevel: 20 },
+        percent: true,
+        category: Category.Food,
+        drawsPower: true,
+        locations: [LocationType.MOON, LocationType.MARS, LocationType.SPACE_STATION]
+    },
+    {
+        type: InfrastructureType.FUEL_CELL,
+        name: "Fuel Cell",
+        description: "Burns Fuel and O2 from storage to cover what the other generators can't supply.",
+        color: "#f2994a",
+        icon: "battery_charging_full",
+        benefit: InfrastructureBenefit.POWER,
+        benefitLabel: "Power (kW)",
+        curve: { kind: "linear", base: 30, perLevel: 10 },
+        generator: "fuelCell",
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.TANK_FARM,
+        name: "Tank Farm",
+        description: "Tanks that add storage for liquids like Water.",
+        color: "#2d9cdb",
+        icon: "water_drop",
+        benefit: InfrastructureBenefit.CLASS_STORAGE,
+        benefitLabel: "Liquid Storage",
+        curve: { kind: "exponential", base: 80, factor: 1.2 },
+        storageClass: StorageClass.LIQUID,
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.GAS_TANKS,
+        name: "Pressure Tanks",
+        description: "Pressure vessels that add storage for gases like O2 and Helium-3.",
+        color: "#6fcf97",
+        icon: "air",
+        benefit: InfrastructureBenefit.CLASS_STORAGE,
+        benefitLabel: "Gas Storage",
+        curve: { kind: "exponential", base: 60, factor: 1.2 },
+        storageClass: StorageClass.GAS,
+        drawsPower: false,
+        locations: null
+    },
+    {
+        type: InfrastructureType.CRYO_VAULT,
+        name: "Cryo Vault",
+        description: "Deep cold hazmat storage for Fuel and frozen samples. Its chillers draw power.",
+        color: "#a0c4ff",
+        icon: "ac_unit",
+        benefit: InfrastructureBenefit.CLASS_STORAGE,
+        benefitLabel: "Cryogenic Storage",
+        curve: { kind: "exponential", base: 50, factor: 1.2 },
+        storageClass: StorageClass.CRYOGENIC,
+        drawsPower: true,
+        locations: null
+    },
+    {
+        type: InfrastructureType.CLEAN_STORE,
+        name: "Clean Store",
+        description: "Padded, dust-free racks that add storage for electronics and instruments.",
+        color: "#b4a7d6",
+        icon: "shelves",
+        benefit: InfrastructureBenefit.CLASS_STORAGE,
+        benefitLabel: "Fragile Storage",
+        curve: { kind: "exponential", base: 50, factor: 1.2 },
+        storageClass: StorageClass.FRAGILE,
+        drawsPower: false,
+        locations: null
+    }
+];
+
+const INFRASTRUCTURE_CONFIGS: Record<number, InfrastructureDefinition> = Object.fromEntries(
+    INFRASTRUCTURE_DATA.map(definition => [definition.type, definition])
+);
+
+function evaluateBenefitCurve(curve: BenefitCurve, level: number): number {
+    switch (curve.kind) {
+        case "step":
+            return curve.base + Math.floor(level / curve.levelsPerStep);
+        case "linear":
+            return curve.base + curve.perLevel * (level - 1);
+        case "exponential":
+            return curve.base * Math.pow(curve.factor, level - 1);
+        case "saturating":
+            return curve.max * level / (level + curve.halfLevel);
+    }
+}
+
+export { InfrastructureType, InfrastructureBenefit, INFRASTRUCTURE_DATA, INFRASTRUCTURE_CONFIGS, evaluateBenefitCurve };
+export type { InfrastructureDefinition, BenefitCurve, GeneratorKind };
@@ -31,8 +31,28 @@ abstract class LevelSystem {
         }
     }
 
-    getUpgradeCost(): number {
-        return Math.floor(50 * Math.pow(1.2, this.level - 1));
+    getUpgradeCost(level: number = this.level): number {
+        return Math.floor(50 * Math.pow(1.2, level - 1));
+    }
+
+    /**
+     * What the upgrades from level 1 to the current level cost
+     */
+    getInvestedUpgradeCost(): number {
+        let invested = 0;
+        for (let level = 1; level < this.level; level++) {
+            invested += this.getUpgradeCost(level);
+        }
+        return invested;
+    }
+
+    /**
+     * Lowers the level, never below 1. Returns the levels actually lost.
+     */
+    decreaseLevel(levels: number): number {
+        const lost = Math.max(0, Math.min(levels, this.level - 1));
+        this.level -= lost;
+        return lost;
     }
 
     // On upgrade event
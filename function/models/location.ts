@@ -53,4 +53,41 @@ function getProductionModifierForLocation(locationType: LocationType): number {
     }
 }
 
-export { LocationType, SpaceLocation, getProductionModifierForLocation };
\ No newline at end of file
+/**
+ * Factor on the output of solar farms, from the sunlight reaching the location
+ */
+function getSolarModifierForLocation(locationType: LocationType): number {
+    switch (locationType) {
+        case LocationType.MARS:
+            return 0.45; // Further from the sun and a dusty sky
+        case LocationType.MOON:
+            return 1.3; // No atmosphere in the way
+        case LocationType.SPACE_STATION:
+            return 1.4; // Panels track the sun
+        case LocationType.TRAVELING:
+            return 0;
+        default:
+            return 1.0;
+    }
+}
+
+/**
+ * Share of a sol the sun is up at the location. Solar farms produce nothing for the rest of the sol.
+ */
+function getDaylightShareForLocation(locationType: LocationType): number {
+    switch (locationType) {
+        case LocationType.SPACE_STATION:
+            return 1; // The station's orbit is never in the shadow for long
+        default:
+            return 0.5;
+    }
+}
+
+/**
+ * Whether colonists at this location depend on Food, Water and O2 from the colony's storage
+ */
+function requiresLifeSupport(locationType: LocationType): boolean {
+    return locationType !== LocationType.EARTH;
+}
+
+export { LocationType, SpaceLocation, getProductionModifierForLocation, getSolarModifierForLocation, getDaylightShareForLocation, requiresLifeSupport };
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { GoodsRegistry } from "./goodsRegistry";
+import { LocationType } from "./location";
+import { CONFIG } from "../config";
+
+/**
+ * Live price state of a single good.
+ * drift is the slow random movement of the price around the good's base price,
+ * saturation grows when the player sells and demand when the player buys; both decay back to zero over the following sols.
+ */
+type MarketEntry = {
+    goodId: number;
+    drift: number;
+    saturation: number;
+    demand: number;
+    history: number[]; // Sell price at the end of each sol, oldest first
+};
+
+/**
+ * Supply/demand model for the market of one location type. Prices follow the good's base price,
+ * scaled by how scarce the good is at the location and by a per-sol drift.
+ * Selling pushes the sell price down and buying pushes the buy price up until the market has absorbed the volume again.
+ */
+class Market {
+    readonly locationType: LocationType;
+    private entries: Map<number, MarketEntry> = new Map();
+    private eventFactors: Map<number, number> = new Map(); // Price factors of running random events, set each step
+
+    constructor(locationType: LocationType = LocationType.EARTH) {
+        this.locationType = locationType;
+        GoodsRegistry.forEach((_, goodId) => this.getEntry(goodId));
+    }
+
+    /**
+     * How much more (or less) a good is worth here than on Earth
+     */
+    getLocalPriceFactor(goodId: number): number {
+        const local = CONFIG.market.local[this.locationType];
+        if (!local) return 1;
+        const good = GoodsRegistry.get(goodId);
+        return local.goods[goodId] ?? (good ? local.categories[good.category] : undefined) ?? 1;
+    }
+
+    private getBaseSellPrice(goodId: number): number {
+        const basePrice = GoodsRegistry.get(goodId)?.marketSellPrice ?? CONFIG.goods.defaultSellPrice;
+        return basePrice * this.getLocalPriceFactor(goodId);
+    }
+
+    private getEntry(goodId: number): MarketEntry {
+        let entry = this.entries.get(goodId);
+        if (!entry) {
+            entry = { goodId, drift: 1, saturation: 0, demand: 0, history: [] };
+            this.entries.set(goodId, entry);
+        }
+        return entry;
+    }
+
+    /**
+     * Units of a good that halve its sell price. Cheap goods trade in much larger volumes than expensive ones.
+     */
+    private getDepth(goodId: number): number {
+        const depthFactor = CONFIG.market.local[this.locationType]?.depthFactor ?? 1;
+        return Math.max(1, CONFIG.market.depthValue * depthFactor / this.getBaseSellPrice(goodId));
+    }
+
+    /**
+     * Replaces the price factors of random events, keyed by good id
+     */
+    setEventFactors(factors: Map<number, number>): void {
+        this.eventFactors = factors;
+    }
+
+    private getEventFactor(goodId: number): number {
+        return this.eventFactors.get(goodId) ?? 1;
+    }
+
+    getSellPrice(goodId: number): number {
+        const entry = this.getEntry(goodId);
+        return this.getBaseSellPrice(goodId) * entry.drift * this.getEventFactor(goodId) / (1 + entry.saturation);
+    }
+
+    getBuyPrice(goodId: number): number {
+        return this.getUnpressuredBuyPrice(goodId) * (1 + this.getEntry(goodId).demand);
+    }
+
+    private getUnpressuredBuyPrice(goodId: number): number {
+        const basePrice = GoodsRegistry.get(goodId)?.marketBuyPrice ?? CONFIG.goods.defaultBuyPrice;
+        return basePrice * this.getLocalPriceFactor(goodId) * this.getEntry(goodId).drift * this.getEventFactor(goodId);
+    }
+
+    /**
+     * Cost of buying the given quantity right now. Every unit bought raises the price of the next one.
+     */
+    quotePurchase(goodId: number, quantity: number): number {
+        if (quantity <= 0) return 0;
+        const entry = this.getEntry(goodId);
+        const depth = this.getDepth(goodId);
+        const demandAfter = entry.demand + quantity / depth;
+        return this.getUnpressuredBuyPrice(goodId) * depth * (Math.pow(1 + demandAfter, 2) - Math.pow(1 + entry.demand, 2)) / 2;
+    }
+
+    /**
+     * Buys the quantity, applying its price impact. Returns the money spent.
+     */
+    buy(goodId: number, quantity: number): number {
+        if (quantity <= 0) return 0;
+        const spent = this.quotePurchase(goodId, quantity);
+        this.getEntry(goodId).demand += quantity / this.getDepth(goodId);
+        return spent;
+    }
+
+    /**
+     * Revenue of selling the given quantity right now. Every unit sold lowers the price of the next one.
+     */
+    quoteSale(goodId: number, quantity: number): number {
+        if (quantity <= 0) return 0;
+        const entry = this.getEntry(goodId);
+        const depth = this.getDepth(goodId);
+        const saturationAfter = entry.saturation + quantity / depth;
+        return this.getBaseSellPrice(goodId) * entry.drift * this.getEventFactor(goodId) * depth * Math.log((1 + saturationAfter) / (1 + entry.saturation));
+    }
+
+    /**
+     * Sells the quantity, applying its price impact. Returns the money earned.
+     */
+    sell(goodId: number, quantity: number): number {
+        if (quantity <= 0) return 0;
+        const earned = this.quoteSale(goodId, quantity);
+        this.getEntry(goodId).saturation += quantity / this.getDepth(goodId);
+        return earned;
+    }
+
+    getPriceHistory(goodId: number): number[] {
+        return this.getEntry(goodId).history;
+    }
+
+    /**
+     * Advances prices by one sol: the drift takes a random step back toward the base price,
+     * saturation recovers and the closing sell price is recorded.
+     */
+    updateSol(random: () => number = Math.random): void {
+        this.entries.forEach(entry => {
+            const shock = (random() * 2 - 1) * CONFIG.market.volatility;
+            const drift = entry.drift + (1 - entry.drift) * CONFIG.market.meanReversion + shock;
+            entry.drift = Math.min(CONFIG.market.maxDrift, Math.max(CONFIG.market.minDrift, drift));
+            entry.saturation *= 1 - CONFIG.market.recoveryPerSol;
+            entry.demand *= 1 - CONFIG.market.recoveryPerSol;
+
+            entry.history.push(this.getSellPrice(entry.goodId));
+            if (entry.history.length > CONFIG.market.historyLength) {
+                entry.history.shift();
+            }
+        });
+    }
+
+    toData() {
+        return {
+            locationType: this.locationType,
+            entries: Array.from(this.entries.values()).map(entry => ({
+                goodId: entry.goodId,
+                drift: entry.drift,
+                saturation: entry.saturation,
+                demand: entry.demand,
+                history: [...entry.history]
+            }))
+        };
+    }
+
+    static fromData(data: any): Market {
+        const market = new Market((data?.locationType as LocationType) ?? LocationType.EARTH);
+        (data?.entries ?? []).forEach((entryData: any) => {
+            if (!GoodsRegistry.has(entryData.goodId)) return;
+            const entry = market.getEntry(entryData.goodId);
+            entry.drift = entryData.drift ?? 1;
+            entry.saturation = entryData.saturation ?? 0;
+            entry.demand = entryData.demand ?? 0;
+            entry.history = entryData.history ?? [];
+        });
+        return market;
+    }
+}
+
+export { Market };
+export type { MarketEntry };
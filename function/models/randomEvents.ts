@@ -0,0 +1,258 @@
+import { LocationType } from "./location";
+import { SeededRandom } from "../simulation/random";
+import { CONFIG } from "../config";
+
+/**
+ * What a random event hits: one colony, the market of one location, or every rocket in flight
+ */
+enum RandomEventTarget {
+    COLONY = 'colony',
+    MARKET = 'market',
+    ROCKETS = 'rockets'
+}
+
+/**
+ * Effects of a running event. Multipliers last while the event runs, the others apply once when it starts.
+ */
+type RandomEventEffects = {
+    solarOutput?: number;          // Multiplies the output of the colony's solar farms
+    productionMultiplier?: number; // Multiplies the production of the colony
+    priceMultiplier?: number;      // Multiplies the buy and sell price of the event's good on the market
+    rocketDelaySols?: number;      // Added to the travel time of every rocket in flight
+    moduleLevelLoss?: number;      // Levels a random module of the colony loses
+};
+
+/**
+ * A response the player can pick while the event runs
+ */
+type RandomEventOption = {
+    id: string;
+    label: string;
+    credits: number;              // Paid when chosen
+    effects?: RandomEventEffects; // Replace the lasting effects of the event
+    repairsDamage?: boolean;      // Restores the module levels the event destroyed
+    xp?: number;                  // Company experience gained
+    endsEvent?: boolean;          // The event is over once chosen
+};
+
+type RandomEventDefinition = {
+    id: string;
+    name: string;
+    description: string;         // {target} and {good} are replaced with the hit colony or market and good
+    icon: string;
+    target: RandomEventTarget;
+    locations: LocationType[] | null; // Location types the event can happen at, null for anywhere
+    weight: number;              // Relative chance among the events that can happen
+    durationSols: number;
+    effects: RandomEventEffects;
+    goods?: number[];            // Goods a market event picks from
+    options?: RandomEventOption[];
+};
+
+// Define all random events in one place, like the goods catalog
+const RANDOM_EVENT_DATA: RandomEventDefinition[] = [
+    {
+        id: "dust_storm",
+        name: "Dust Storm",
+        description: "A dust storm rolls over {target}. Solar output is halved until it clears.",
+        icon: "storm",
+        target: RandomEventTarget.COLONY,
+        locations: [LocationType.MARS],
+        weight: 3,
+        durationSols: 3,
+        effects: { solarOutput: 0.5 },
+        options: [
+            { id: "clean", label: "Clean the panels", credits: 5_000, effects: { solarOutput: 0.8 } },
+            { id: "wait", label: "Wait it out", credits: 0 }
+        ]
+    },
+    {
+        id: "meteorite_strike",
+        name: "Meteorite Strike",
+        description: "A meteorite hit {target} and damaged a module. It lost a level.",
+        icon: "crisis_alert",
+        target: RandomEventTarget.COLONY,
+        locations: [LocationType.MOON, LocationType.MARS, LocationType.SPACE_STATION],
+        weight: 2,
+        durationSols: 2,
+        effects: { moduleLevelLoss: 1 },
+        options: [
+            { id: "repair", label: "Repair the module", credits: 8_000, repairsDamage: true, endsEvent: true },
+            { id: "leave", label: "Leave it damaged", credits: 0, endsEvent: true }
+        ]
+    },
+    {
+        id: "demand_spike",
+        name: "Demand Spike",
+        description: "Demand for {good} surges on {target}. Prices are up by half.",
+        icon: "trending_up",
+        target: RandomEventTarget.MARKET,
+        locations: [LocationType.EARTH],
+        weight: 3,
+        durationSols: 4,
+        effects: { priceMultiplier: 1.5 },
+        goods: [4, 5, 6, 8, 9, 15, 16, 18]
+    },
+    {
+        id: "solar_flare",
+        name: "Solar Flare",
+        description: "A solar flare forces every rocket in flight into safe mode. They arrive a sol later.",
+        icon: "flare",
+        target: RandomEventTarget.ROCKETS,
+        locations: null,
+        weight: 2,
+        durationSols: 1,
+        effects: { rocketDelaySols: 1 }
+    },
+    {
+        id: "equipment_breakthrough",
+        name: "Equipment Breakthrough",
+        description: "Engineers at {target} found a way to run the modules harder. Production is up by a quarter.",
+        icon: "emoji_objects",
+        target: RandomEventTarget.COLONY,
+        locations: null,
+        weight: 1,
+        durationSols: 5,
+        effects: { productionMultiplier: 1.25 },
+        options: [
+            { id: "keep", label: "Keep it in-house", credits: 0 },
+            { id: "publish", label: "Publish the results", credits: 0, xp: 1_500, endsEvent: true }
+        ]
+    }
+];
+
+const RandomEventRegistry = new Map<string, RandomEventDefinition>(RANDOM_EVENT_DATA.map(def => [def.id, def]));
+
+/**
+ * A running event. targetId is the colony id or market location type, depending on the definition's target.
+ */
+type ActiveRandomEvent = {
+    id: string;
+    definitionId: string;
+    startSol: number;
+    remainingSols: number;
+    targetId: string | null;
+    targetName: string;
+    goodId: number | null;
+    effects: RandomEventEffects;
+    choice: string | null;
+    damage: { moduleIndex: number; levels: number } | null; // Module levels destroyed, for repairs
+};
+
+/**
+ * Random events of a game: the seeded generator, the running events and a log of past ones.
+ * Everything random in the simulation draws from the generator, so a game replays the same from its seed.
+ */
+class RandomEvents {
+    random: SeededRandom;
+    private active: ActiveRandomEvent[] = [];
+    private history: { id: string; sol: number; definitionId: string; targetName: string; choice: string | null }[] = [];
+    private nextId: number = 1;
+
+    constructor(seed: number) {
+        this.random = new SeededRandom(seed);
+    }
+
+    getActive(): ActiveRandomEvent[] {
+        return [...this.active];
+    }
+
+    getHistory() {
+        return [...this.history];
+    }
+
+    /**
+     * Events that still wait for the player's decision
+     */
+    getPendingChoices(): ActiveRandomEvent[] {
+        return this.active.filter(event => event.choice === null && (RandomEventRegistry.get(event.definitionId)?.options?.length ?? 0) > 0);
+    }
+
+    start(event: Omit<ActiveRandomEvent, 'id' | 'choice'>): ActiveRandomEvent {
+        const started = { ...event, id: `evt-${this.nextId++}`, choice: null };
+        this.active.push(started);
+        this.history.push({ id: started.id, sol: event.startSol, definitionId: event.definitionId, targetName: event.targetName, choice: null });
+        if (this.history.length > CONFIG.randomEvents.historyLength) this.history.shift();
+        return started;
+    }
+
+    /**
+     * Records the player's choice. Returns false if the event is over or already decided.
+     */
+    choose(eventId: string, optionId: string): boolean {
+        const event = this.active.find(e => e.id === eventId);
+        if (!event || event.choice !== null) return false;
+        const option = RandomEventRegistry.get(event.definitionId)?.options?.find(o => o.id === optionId);
+        if (!option) return false;
+
+        event.choice = optionId;
+        if (option.effects) event.effects = { ...option.effects };
+        if (option.endsEvent) this.active = this.active.filter(e => e !== event);
+
+        const entry = this.history.find(h => h.id === event.id);
+        if (entry) entry.choice = optionId;
+        return true;
+    }
+
+    /**
+     * Keeps damage records pointing at the right module after a colony removed the module at moduleIndex.
+     * The removed module's own record is dropped, the records of the modules after it move down by one.
+     */
+    forgetModule(colonyId: string, moduleIndex: number): void {
+        this.active
+            .filter(event => event.targetId === colonyId && event.damage)
+            .forEach(event => {
+                if (event.damage!.moduleIndex === moduleIndex) {
+                    event.damage = null;
+                } else if (event.damage!.moduleIndex > moduleIndex) {
+                    event.damage = { ...event.damage!, moduleIndex: event.damage!.moduleIndex - 1 };
+                }
+            });
+    }
+
+    /**
+     * Counts down the running events by one sol. Returns the events that ended.
+     */
+    passSol(): ActiveRandomEvent[] {
+        this.active.forEach(event => event.remainingSols--);
+        const ended = this.active.filter(event => event.remainingSols <= 0);
+        this.active = this.active.filter(event => event.remainingSols > 0);
+        return ended;
+    }
+
+    /**
+     * Combined multiplier of a numeric effect over the running events that match
+     */
+    getMultiplier(key: 'solarOutput' | 'productionMultiplier' | 'priceMultiplier', matches: (event: ActiveRandomEvent) => boolean): number {
+        return this.active
+            .filter(matches)
+            .reduce((total, event) => total * (event.effects[key] ?? 1), 1);
+    }
+
+    static describe(event: ActiveRandomEvent, goodName: string = ''): string {
+        const description = RandomEventRegistry.get(event.definitionId)?.description ?? '';
+        return description.replace('{target}', event.targetName).replace('{good}', goodName);
+    }
+
+    toData() {
+        return {
+            seed: this.random.seed,
+            state: this.random.getState(),
+            active: this.active.map(event => ({ ...event, effects: { ...event.effects } })),
+            history: this.history.map(entry => ({ ...entry })),
+            nextId: this.nextId
+        };
+    }
+
+    static fromData(data: any, fallbackSeed: number): RandomEvents {
+        const events = new RandomEvents(data?.seed ?? fallbackSeed);
+        if (data?.state !== undefined) events.random = new SeededRandom(events.random.seed, data.state);
+        events.active = (data?.active ?? []).filter((event: any) => RandomEventRegistry.has(event.definitionId));
+        events.history = data?.history ?? [];
+        events.nextId = data?.nextId ?? events.active.length + 1;
+        return events;
+    }
+}
+
+export { RandomEvents, RandomEventRegistry, RandomEventTarget };
+export type { ActiveRandomEvent, RandomEventDefinition, RandomEventEffects, RandomEventOption };
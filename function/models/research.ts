@@ -0,0 +1,293 @@
+import { LocationType } from "./location";
+import type { RecipeComponent } from "./good";
+
+/**
+ * What a finished technology changes. All fields are optional and add up over all researched technologies.
+ */
+type TechEffects = {
+    unlockGoods?: number[];          // Goods whose production modules can only be built after the research
+    unlockLocations?: LocationType[]; // Locations that can only be explored after the research
+    extraModuleSlots?: number;       // Added to the module cap of every colony
+    rocketSpeedBonus?: number;       // Added to the rocket speed multiplier
+    rocketFuelMultiplier?: number;   // Multiplies the fuel burn of every rocket
+    explorationDiscount?: number;    // Share taken off the exploration price
+};
+
+type Technology = {
+    id: string;
+    name: string;
+    description: string;
+    icon: string;
+    requires: string[];
+    credits: number;
+    goods: RecipeComponent[]; // Science goods used up by the research
+    researchSols: number;
+    effects: TechEffects;
+};
+
+// Define all technologies in one place, like the goods catalog
+const TECHNOLOGY_DATA: Technology[] = [
+    {
+        id: "orbital_logistics",
+        name: "Orbital Logistics",
+        description: "Docking procedures for an orbital station and leaner launch profiles.",
+        icon: "satellite_alt",
+        requires: [],
+        credits: 20_000,
+        goods: [],
+        researchSols: 3,
+        effects: { unlockLocations: [LocationType.SPACE_STATION], rocketFuelMultiplier: 0.95 }
+    },
+    {
+        id: "lunar_mining",
+        name: "Lunar Mining",
+        description: "Refining Helium-3 from the regolith of the Moon.",
+        icon: "landslide",
+        requires: [],
+        credits: 40_000,
+        goods: [],
+        researchSols: 4,
+        effects: { unlockGoods: [12] }
+    },
+    {
+        id: "modular_habitats",
+        name: "Modular Habitats",
+        description: "Habitat panels pressed from local steel and regolith. Colonies fit one more module.",
+        icon: "roofing",
+        requires: ["lunar_mining"],
+        credits: 60_000,
+        goods: [],
+        researchSols: 4,
+        effects: { unlockGoods: [14, 20], extraModuleSlots: 1 }
+    },
+    {
+        id: "deep_space_navigation",
+        name: "Deep Space Navigation",
+        description: "Interplanetary trajectories that make Mars reachable. Rockets fly faster.",
+        icon: "explore",
+        requires: ["orbital_logistics"],
+        credits: 150_000,
+        goods: [],
+        researchSols: 6,
+        effects: { unlockLocations: [LocationType.MARS], rocketSpeedBonus: 0.1 }
+    },
+    {
+        id: "closed_loop_life_support",
+        name: "Closed-Loop Life Support",
+        description: "Self-contained life support systems and spacesuits.",
+        icon: "air",
+        requires: ["modular_habitats"],
+        credits: 100_000,
+        goods: [{ goodId: 9, quantity: 1 }],
+        researchSols: 5,
+        effects: { unlockGoods: [8, 18] }
+    },
+    {
+        id: "planetary_science",
+        name: "Planetary Science",
+        description: "Field labs that gather research samples. Surveys of new locations get cheaper.",
+        icon: "science",
+        requires: ["deep_space_navigation"],
+        credits: 200_000,
+        goods: [{ goodId: 9, quantity: 2 }],
+        researchSols: 6,
+        effects: { unlockGoods: [16], explorationDiscount: 0.25 }
+    },
+    {
+        id: "microgravity_research",
+        name: "Microgravity Research",
+        description: "Growing crystals in orbit. Colonies fit one more module.",
+        icon: "diamond",
+        requires: ["orbital_logistics", "planetary_science"],
+        credits: 150_000,
+        goods: [{ goodId: 16, quantity: 5 }],
+        researchSols: 8,
+        effects: { unlockGoods: [15], extraModuleSlots: 1 }
+    },
+    {
+        id: "advanced_propulsion",
+        name: "Advanced Propulsion",
+        description: "Fusion drives fed with Helium-3. Faster, more efficient rockets and cheaper exploration.",
+        icon: "rocket_launch",
+        requires: ["lunar_mining", "microgravity_research"],
+        credits: 500_000,
+        goods: [{ goodId: 16, quantity: 10 }, { goodId: 15, quantity: 5 }],
+        researchSols: 10,
+        effects: { rocketSpeedBonus: 0.2, rocketFuelMultiplier: 0.8, explorationDiscount: 0.25 }
+    },
+    {
+        id: "megastructures",
+        name: "Megastructures",
+        description: "Large-scale construction in low gravity. Colonies fit two more modules.",
+        icon: "construction",
+        requires: ["closed_loop_life_support", "advanced_propulsion"],
+        credits: 1_000_000,
+        goods: [{ goodId: 15, quantity: 10 }, { goodId: 16, quantity: 10 }],
+        researchSols: 12,
+        effects: { extraModuleSlots: 2 }
+    }
+];
+
+const TechnologyRegistry = new Map<string, Technology>(TECHNOLOGY_DATA.map(tech => [tech.id, tech]));
+
+/**
+ * The company's research: finished technologies and the queue of technologies to research next.
+ * The head of the queue is researched first. Its costs are paid when it starts, and it finishes
+ * after its research time has passed.
+ */
+class Research {
+    private completed: Set<string> = new Set();
+    private queue: string[] = [];
+    private progressSols: number = 0; // Research time spent on the head of the queue
+    private started: boolean = false; // Costs of the head of the queue are paid
+
+    isCompleted(techId: string): boolean {
+        return this.completed.has(techId);
+    }
+
+    getCompleted(): string[] {
+        return Array.from(this.completed);
+    }
+
+    getQueue(): string[] {
+        return [...this.queue];
+    }
+
+    getCurrent(): Technology | null {
+        const techId = this.queue[0];
+        return techId ? TechnologyRegistry.get(techId) ?? null : null;
+    }
+
+    isStarted(): boolean {
+        return this.started;
+    }
+
+    /**
+     * Share of the research time of the head of the queue that has passed, from 0 to 1
+     */
+    getProgress(): number {
+        const current = this.getCurrent();
+        if (!current || !this.started) return 0;
+        return Math.min(1, this.progressSols / current.researchSols);
+    }
+
+    /**
+     * A technology can be queued once all its prerequisites are researched or queued before it
+     */
+    canEnqueue(techId: string): boolean {
+        const tech = TechnologyRegistry.get(techId);
+        if (!tech || this.completed.has(techId) || this.queue.includes(techId)) return false;
+        return tech.requires.every(required => this.completed.has(required) || this.queue.includes(required));
+    }
+
+    enqueue(techId: string): boolean {
+        if (!this.canEnqueue(techId)) return false;
+        this.queue.push(techId);
+        return true;
+    }
+
+    /**
+     * Removes a technology that has not started yet, along with the queued technologies that depend on it
+     */
+    dequeue(techId: string): boolean {
+        const index = this.queue.indexOf(techId);
+        if (index < 0 || (index === 0 && this.started)) return false;
+
+        this.queue.splice(index, 1);
+        this.queue
+            .filter(queued => TechnologyRegistry.get(queued)?.requires.includes(techId))
+            .forEach(dependent => this.dequeue(dependent));
+        return true;
+    }
+
+    /**
+     * Marks the head of the queue as paid for, so its research time starts running
+     */
+    markStarted(): void {
+        if (this.queue.length > 0) this.started = true;
+    }
+
+    /**
+     * Advances the research of the head of the queue. Returns the technology if it finished.
+     */
+    advance(solsPassed: number): Technology | null {
+        const current = this.getCurrent();
+        if (!current || !this.started) return null;
+
+        this.progressSols += solsPassed;
+        if (this.progressSols < current.researchSols) return null;
+
+        this.queue.shift();
+        this.completed.add(current.id);
+        this.progressSols = 0;
+        this.started = false;
+        return current;
+    }
+
+    private getCompletedEffects(): TechEffects[] {
+        return this.getCompleted()
+            .map(techId => TechnologyRegistry.get(techId)?.effects)
+            .filter((effects): effects is TechEffects => effects !== undefined);
+    }
+
+    /**
+     * A good is locked while an unfinished technology unlocks it
+     */
+    isGoodUnlocked(goodId: number): boolean {
+        return TECHNOLOGY_DATA.every(tech => this.completed.has(tech.id) || !tech.effects.unlockGoods?.includes(goodId));
+    }
+
+    isLocationUnlocked(locationType: LocationType): boolean {
+        return TECHNOLOGY_DATA.every(tech => this.completed.has(tech.id) || !tech.effects.unlockLocations?.includes(locationType));
+    }
+
+    /**
+     * The technology that unlocks a good or location, for hints in the interface
+     */
+    static getUnlockingTechnology(target: { goodId?: number; locationType?: LocationType }): Technology | undefined {
+        return TECHNOLOGY_DATA.find(tech =>
+            (target.goodId !== undefined && tech.effects.unlockGoods?.includes(target.goodId)) ||
+            (target.locationType !== undefined && tech.effects.unlockLocations?.includes(target.locationType))
+        );
+    }
+
+    getExtraModuleSlots(): number {
+        return this.getCompletedEffects().reduce((total, effects) => total + (effects.extraModuleSlots ?? 0), 0);
+    }
+
+    getRocketSpeedBonus(): number {
+        return this.getCompletedEffects().reduce((total, effects) => total + (effects.rocketSpeedBonus ?? 0), 0);
+    }
+
+    getRocketFuelMultiplier(): number {
+        return this.getCompletedEffects().reduce((total, effects) => total * (effects.rocketFuelMultiplier ?? 1), 1);
+    }
+
+    getExplorationDiscount(): number {
+        const discount = this.getCompletedEffects().reduce((total, effects) => total + (effects.explorationDiscount ?? 0), 0);
+        return Math.min(discount, 0.9);
+    }
+
+    toData() {
+        return {
+            completed: this.getCompleted(),
+            queue: [...this.queue],
+            progressSols: this.progressSols,
+            started: this.started
+        };
+    }
+
+    static fromData(data: any): Research {
+        const research = new Research();
+        (data?.completed ?? [])
+            .filter((techId: string) => TechnologyRegistry.has(techId))
+            .forEach((techId: string) => research.completed.add(techId));
+        research.queue = (data?.queue ?? []).filter((techId: string) => TechnologyRegistry.has(techId));
+        research.progressSols = data?.progressSols ?? 0;
+        research.started = (data?.started ?? false) && research.queue.length > 0;
+        return research;
+    }
+}
+
+export { Research, TechnologyRegistry };
+export type { Technology, TechEffects };
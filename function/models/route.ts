@@ -0,0 +1,81 @@
+import { GoodsRegistry } from "./goodsRegistry";
+
+/**
+ * What a rocket does with a good when it docks at a route stop
+ */
+enum RouteAction {
+    LOAD = 'load',
+    UNLOAD = 'unload',
+    SELL = 'sell'
+}
+
+/**
+ * A rule applies to one good, or to every good when goodId is null. Fuel is never loaded as cargo.
+ */
+type RouteRule = { action: RouteAction; goodId: number | null };
+
+type RouteStop = { colonyId: string; rules: RouteRule[] };
+
+/**
+ * Ordered list of stops a rocket cycles through. At each stop the rocket unloads and sells first,
+ * then loads, and flies on to the next stop. After the last stop it starts over at the first one.
+ */
+class RouteProgram {
+    stops: RouteStop[];
+    nextStop: number = 0; // Stop the rocket is heading to, or docked at waiting to be serviced
+
+    constructor(stops: RouteStop[], nextStop: number = 0) {
+        this.stops = stops;
+        this.nextStop = stops.length > 0 ? nextStop % stops.length : 0;
+    }
+
+    getNextStop(): RouteStop | undefined {
+        return this.stops[this.nextStop];
+    }
+
+    advance(): void {
+        if (this.stops.length === 0) return;
+        this.nextStop = (this.nextStop + 1) % this.stops.length;
+    }
+
+    /**
+     * The classic sell route: load everything at the origin, sell everything on Earth
+     */
+    static sellLoop(originColonyId: string, earthColonyId: string): RouteProgram {
+        return new RouteProgram([
+            { colonyId: originColonyId, rules: [{ action: RouteAction.LOAD, goodId: null }] },
+            { colonyId: earthColonyId, rules: [{ action: RouteAction.SELL, goodId: null }] }
+        ]);
+    }
+
+    static describeRule(rule: RouteRule): string {
+        const action = rule.action.charAt(0).toUpperCase() + rule.action.slice(1);
+        const goodName = rule.goodId === null
+            ? 'all goods'
+            : GoodsRegistry.get(rule.goodId)?.name ?? `Good #${rule.goodId}`;
+        return `${action} ${goodName}`;
+    }
+
+    toData() {
+        return {
+            stops: this.stops.map(stop => ({
+                colonyId: stop.colonyId,
+                rules: stop.rules.map(rule => ({ action: rule.action, goodId: rule.goodId }))
+            })),
+            nextStop: this.nextStop
+        };
+    }
+
+    static fromData(data: any): RouteProgram {
+        const stops: RouteStop[] = (data?.stops ?? []).map((stopData: any) => ({
+            colonyId: String(stopData.colonyId),
+            rules: (stopData.rules ?? [])
+                .filter((rule: any) => Object.values(RouteAction).includes(rule.action))
+                .map((rule: any) => ({ action: rule.action as RouteAction, goodId: rule.goodId ?? null }))
+        }));
+        return new RouteProgram(stops, data?.nextStop ?? 0);
+    }
+}
+
+export { RouteProgram, RouteAction };
+export type { RouteRule, RouteStop };
@@ -2,6 +2,8 @@ import { Rocket } from "./storage";
 import { Company } from "./company";
 import { GoodsRegistry } from "./goodsRegistry";
 import { LocationType, SpaceLocation } from "./location";
+import { Market } from "./market";
+import { RandomEvents } from "./randomEvents";
 
 // Game configuration is now centralized in config.ts
 // Access via CONFIG.game.minutesPerSol
@@ -11,23 +13,29 @@ class GameSession {
     playerName: string;
     company: Company;
     rockets: Rocket[];
+    markets: Map<LocationType, Market> = new Map([[LocationType.EARTH, new Market(LocationType.EARTH)]]);
     totalSolsPassed: number = 0;
     currentSol: number = 1;
     currentSolProgress: number = 0; // 0 to 1
+    gameSpeed: number = 1; // Simulation speed multiplier, 0 = paused
     tutorialActive: boolean = false;
     tutorialStep: number = 0;
     tutorialCompleted: boolean = false;
+    lastSavedAt: number | null = null; // Set by the save system on load, not part of the payload
 
     explorationMissions: ExplorationMission[] = [];
+    randomEvents: RandomEvents;
     
-    constructor(sessionId: string, playerName: string, company: Company) {
+    constructor(sessionId: string, playerName: string, company: Company, seed: number = Date.now()) {
         this.sessionId = sessionId;
         this.playerName = playerName;
         this.company = company;
         this.rockets = [];
+        this.randomEvents = new RandomEvents(seed);
     }
 
     addRocket(rocket: Rocket) {
+        rocket.research = this.company.research;
         this.rockets.push(rocket);
     }
 
@@ -42,6 +50,41 @@ class GameSession {
         
     }
 
+    /**
+     * Sols passed since the start of the game, including the progress of the current sol.
+     * Orbital positions, and with them launch windows, follow this clock.
+     */
+    getSolTime(): number {
+        return this.totalSolsPassed + this.currentSolProgress;
+    }
+
+    /**
+     * The market of a location type, opened on first access
+     */
+    getMarket(locationType: LocationType): Market {
+        let market = this.markets.get(locationType);
+        if (!market) {
+            market = new Market(locationType);
+            this.markets.set(locationType, market);
+        }
+        return market;
+    }
+
+    /**
+     * Location types that have a market the player can trade at: every colonized location type
+     */
+    getMarketLocationTypes(): LocationType[] {
+        const types = new Set(this.company.colonies.map(colony => colony.locationId.getType()));
+        return Array.from(types);
+    }
+
+    /**
+     * Location types a rocket can refuel at, and so change legs at: every colonized location type
+     */
+    getRefuelStops(): Set<LocationType> {
+        return new Set(this.company.colonies.map(colony => colony.locationId.getType()));
+    }
+
     getSolData(): { currentSol: number; currentSolProgress: number } {
         return {
             currentSol: this.currentSol,
@@ -55,13 +98,16 @@ class GameSession {
             playerName: this.playerName,
             company: this.company.toData(),
             rockets: this.rockets.map(rocket => rocket.toData()),
+            markets: Array.from(this.markets.values()).map(market => market.toData()),
             totalSolsPassed: this.totalSolsPassed,
             currentSol: this.currentSol,
             currentSolProgress: this.currentSolProgress,
+            gameSpeed: this.gameSpeed,
             tutorialActive: this.tutorialActive,
             tutorialStep: this.tutorialStep,
             tutorialCompleted: this.tutorialCompleted,
-            explorationMissions: this.explorationMissions
+            explorationMissions: this.explorationMissions,
+            randomEvents: this.randomEvents.toData()
         };
     }
 
@@ -72,10 +118,20 @@ class GameSession {
         const locations = new Map<string, SpaceLocation>();
         company.colonies.forEach(col => locations.set(col.locationId.getId(), col.locationId));
 
-        session.rockets = (data.rockets ?? []).map((rocketData: any) => Rocket.fromData(rocketData, locations, GoodsRegistry));
+        // Older payloads are brought up to date by the save migrations before they get here
+        session.rockets = (data.rockets ?? []).map((rocketData: any) => {
+            const rocket = Rocket.fromData(rocketData, locations, GoodsRegistry);
+            rocket.research = company.research;
+            return rocket;
+        });
+        (data.markets ?? []).forEach((marketData: any) => {
+            const market = Market.fromData(marketData);
+            session.markets.set(market.locationType, market);
+        });
         session.totalSolsPassed = data.totalSolsPassed ?? 0;
         session.currentSol = data.currentSol ?? 1;
         session.currentSolProgress = data.currentSolProgress ?? 0;
+        session.gameSpeed = data.gameSpeed ?? 1;
         
         // Restore tutorial state
         session.tutorialActive = data.tutorialActive ?? false;
@@ -86,6 +142,7 @@ class GameSession {
             rocketId: String(m.rocketId),
             targetType: m.targetType as LocationType
         }));
+        session.randomEvents = RandomEvents.fromData(data.randomEvents, Date.now());
 
         return session;
     }
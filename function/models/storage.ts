@@ -1,20 +1,39 @@
-import { ItemPosition, Good } from "./good";
+import { ItemPosition, Good, StorageClass } from "./good";
 import { LocationType, SpaceLocation } from "./location";
 import { LevelSystem, type LevelProperty } from "./level";
+import { RouteProgram } from "./route";
+import type { Research } from "./research";
 import { CONFIG } from "../config";
 
-type SpaceConnection = { from: LocationType, to: LocationType, travelTime: number, fuelCost: number };
+/**
+ * A flight path between two locations. travelTime (sols) and fuelCost are the values at a launch window.
+ * Away from a window the planets are badly aligned and both grow, up to (1 + windowSwing) times half
+ * a synodic period later. Connections with a synodicPeriod of 0 cost the same every sol.
+ */
+type SpaceConnection = {
+    from: LocationType,
+    to: LocationType,
+    travelTime: number,
+    fuelCost: number,
+    synodicPeriod: number, // Sols between two launch windows
+    firstWindow: number,   // Sol of the first launch window
+    windowSwing: number
+};
 
 const SpaceConnections: SpaceConnection[] = [
-    {from: LocationType.EARTH, to: LocationType.MARS, travelTime: 6, fuelCost: 100_000},
-    {from: LocationType.EARTH, to: LocationType.MOON, travelTime: 2, fuelCost: 30_000},
-    {from: LocationType.MOON, to: LocationType.MARS, travelTime: 5, fuelCost: 50_000},
-    {from: LocationType.SPACE_STATION, to: LocationType.MARS, travelTime: 5, fuelCost: 90_000},
-    {from: LocationType.SPACE_STATION, to: LocationType.MOON, travelTime: 1, fuelCost: 20_000},
-    {from: LocationType.EARTH, to: LocationType.SPACE_STATION, travelTime: 0.5, fuelCost: 500}
+    {from: LocationType.EARTH, to: LocationType.MARS, travelTime: 6, fuelCost: 5, synodicPeriod: 26, firstWindow: 8, windowSwing: 1},
+    {from: LocationType.EARTH, to: LocationType.MOON, travelTime: 2, fuelCost: 1.5, synodicPeriod: 6, firstWindow: 2, windowSwing: 0.15},
+    {from: LocationType.MOON, to: LocationType.MARS, travelTime: 5, fuelCost: 2.5, synodicPeriod: 26, firstWindow: 10, windowSwing: 0.8},
+    {from: LocationType.SPACE_STATION, to: LocationType.MARS, travelTime: 5, fuelCost: 4.5, synodicPeriod: 26, firstWindow: 7, windowSwing: 1},
+    {from: LocationType.SPACE_STATION, to: LocationType.MOON, travelTime: 1, fuelCost: 1, synodicPeriod: 6, firstWindow: 1, windowSwing: 0.15},
+    {from: LocationType.EARTH, to: LocationType.SPACE_STATION, travelTime: 0.5, fuelCost: 0.5, synodicPeriod: 0, firstWindow: 0, windowSwing: 0}
 ]
 
-function findSpaceConnection(from: LocationType, to: LocationType): SpaceConnection | undefined {
+/**
+ * Finds the connection between two locations in either direction.
+ * With a sol, travel time and fuel cost are the ones of a launch at that sol.
+ */
+function findSpaceConnection(from: LocationType, to: LocationType, sol?: number): SpaceConnection | undefined {
     // Try direct connection
     let connection = SpaceConnections.find(conn => conn.from === from && conn.to === to);
 
@@ -23,15 +42,33 @@ function findSpaceConnection(from: LocationType, to: LocationType): SpaceConnect
         connection = SpaceConnections.find(conn => conn.from === to && conn.to === from);
     }
 
-    return connection;
+    return connection && sol !== undefined ? getConnectionAt(connection, sol) : connection;
 }
 
-enum SellRouteState {
-    IDLE = 'idle',
-    LOADING = 'loading',
-    TRAVELING_TO_EARTH = 'to_earth',
-    SELLING = 'selling',
-    TRAVELING_TO_ORIGIN = 'to_origin'
+/**
+ * How much longer and costlier a launch at the given sol is than one at a launch window (1 = at a window)
+ */
+function getOrbitalFactor(connection: SpaceConnection, sol: number): number {
+    if (connection.synodicPeriod <= 0) return 1;
+    const phase = 2 * Math.PI * (sol - connection.firstWindow) / connection.synodicPeriod;
+    return 1 + connection.windowSwing * (1 - Math.cos(phase)) / 2;
+}
+
+/**
+ * The connection with the travel time and fuel cost of a launch at the given sol
+ */
+function getConnectionAt(connection: SpaceConnection, sol: number): SpaceConnection {
+    const factor = getOrbitalFactor(connection, sol);
+    return { ...connection, travelTime: connection.travelTime * factor, fuelCost: connection.fuelCost * factor };
+}
+
+/**
+ * Sol of the next launch window at or after the given sol
+ */
+function getNextLaunchWindow(connection: SpaceConnection, sol: number): number {
+    if (connection.synodicPeriod <= 0) return sol;
+    const windowsPassed = Math.ceil((sol - connection.firstWindow) / connection.synodicPeriod);
+    return connection.firstWindow + windowsPassed * connection.synodicPeriod;
 }
 
 abstract class StorageHolder extends LevelSystem {
@@ -62,8 +99,38 @@ abstract class StorageHolder extends LevelSystem {
         return Math.floor(this.baseCapacity * Math.pow(this.scaleFactor, (lvl ?? this.getLevel()) + 1)) ;
     }
 
+    /**
+     * Capacity for the goods of one storage class. Holders that don't separate the classes, like rockets, share one pool.
+     */
+    getClassCapacity(storageClass: StorageClass, lvl?: number): number {
+        return this.getCapacity(lvl);
+    }
+
+    getClassQuantity(storageClass: StorageClass): number {
+        return Math.floor(this.items
+            .filter(item => item.good.storageClass === storageClass)
+            .reduce((total, item) => total + item.quantity, 0));
+    }
+
+    /**
+     * Room left for a good: the free room of its storage class, less what is kept free for other goods of the class
+     */
+    getFreeRoomFor(good: Good): number {
+        const storageClass = good.storageClass;
+        const totalRoom = this.getCapacity() - this.getTotalQuantity();
+        const classRoom = this.getClassCapacity(storageClass) - this.getClassQuantity(storageClass) - this.getRoomReservedForOthers(good);
+        return Math.max(0, Math.min(totalRoom, classRoom));
+    }
+
+    /**
+     * Room of a good's storage class that is kept free for other goods
+     */
+    protected getRoomReservedForOthers(good: Good): number {
+        return 0;
+    }
+
     addItemPosition(itemPosition: ItemPosition): boolean {
-        if (this.getTotalQuantity() + itemPosition.quantity <= this.getCapacity()) {
+        if (itemPosition.quantity <= this.getFreeRoomFor(itemPosition.good)) {
             // Check if the item already exists
             const existingItem = this.items.find(item => item.good.getId() === itemPosition.good.getId());
             if (existingItem) {
@@ -107,6 +174,15 @@ abstract class StorageHolder extends LevelSystem {
     }
 }
 
+/**
+ * A colony module taken apart to be reassembled at another colony. It travels as cargo and keeps its level.
+ */
+type PackedModule = {
+    name: string;
+    mass: number;   // Tonnes of cargo room it takes
+    module: any;    // The module's save data, read back by the colony that reassembles it
+};
+
 class Rocket extends StorageHolder {
     private id: string;
     name: string;
@@ -114,9 +190,10 @@ class Rocket extends StorageHolder {
     initialTravelTime: number; // total journey duration in minutes
     locationId: SpaceLocation;
     destinationId: SpaceLocation | null;
-    sellRoute: boolean = false;              // Is this rocket on a sell route?
-    sellRouteOriginId: string | null = null; // Colony ID of the origin
-    sellRouteState: SellRouteState = SellRouteState.IDLE;
+    route: RouteProgram | null = null;       // Logistics route the rocket follows automatically
+    waypoints: LocationType[] = [];          // Remaining stops of a multi-leg journey after the current destination
+    packedModules: PackedModule[] = [];      // Colony modules carried as cargo
+    research: Research | null = null;        // The company's research, set by GameSession.addRocket
 
     constructor(id: string, name: string, estimatedTravelTime: number, locationId: SpaceLocation, initialLevel: number = 1) {
         super([], 100, initialLevel); // Default capacity of 100 units, level 1
@@ -132,30 +209,79 @@ class Rocket extends StorageHolder {
         return this.id;
     }
 
+    /**
+     * Goods and packed modules on board
+     */
+    override getTotalQuantity(): number {
+        return super.getTotalQuantity() + this.packedModules.reduce((total, packed) => total + packed.mass, 0);
+    }
+
     onUpgrade(): void {}
 
     override getProperties() {
+        const nextLevel = this.getLevel() + 1;
         return [
-            { name: "Travel time", value: this.estimatedTravelTime, increase: 5 },
-            { name: "Capacity", value: this.getCapacity(), increase: this.getCapacity(this.getLevel() + 1) - this.getCapacity() },
-            { name: "Fuel Efficiency", value: 100, increase: 5 }
+            { name: "Speed (%)", value: Math.round(this.getSpeedMultiplier() * 100), increase: Math.round(this.getSpeedMultiplier(nextLevel) * 100) - Math.round(this.getSpeedMultiplier() * 100) },
+            { name: "Capacity", value: this.getCapacity(), increase: this.getCapacity(nextLevel) - this.getCapacity() },
+            { name: "Fuel Efficiency (%)", value: Math.round(100 / this.getFuelMultiplier()), increase: Math.round(100 / this.getFuelMultiplier(nextLevel)) - Math.round(100 / this.getFuelMultiplier()) }
         ];
     }
 
-    startTravel(destinationId: SpaceLocation): boolean {
+    /**
+     * Travel speed relative to a level 1 rocket
+     */
+    getSpeedMultiplier(lvl?: number): number {
+        const researchBonus = this.research?.getRocketSpeedBonus() ?? 0;
+        return 1 + CONFIG.rocket.speedPerLevel * ((lvl ?? this.getLevel()) - 1) + researchBonus;
+    }
+
+    /**
+     * Share of a connection's base fuel cost an empty rocket of this level burns
+     */
+    getFuelMultiplier(lvl?: number): number {
+        const researchMultiplier = this.research?.getRocketFuelMultiplier() ?? 1;
+        const multiplier = Math.pow(CONFIG.rocket.fuelMultiplierPerLevel, (lvl ?? this.getLevel()) - 1) * researchMultiplier;
+        return Math.max(CONFIG.rocket.minFuelMultiplier, multiplier);
+    }
+
+    /**
+     * Total mass relative to the empty rocket. Every unit of cargo adds one tonne.
+     */
+    getMassFactor(cargoMass: number = this.getTotalQuantity()): number {
+        return (CONFIG.rocket.dryMass + cargoMass) / CONFIG.rocket.dryMass;
+    }
+
+    /**
+     * Fuel this rocket burns on a connection with its current (or the given) cargo
+     */
+    getFuelCost(connection: SpaceConnection, cargoMass?: number): number {
+        return Math.ceil(connection.fuelCost * this.getFuelMultiplier() * this.getMassFactor(cargoMass));
+    }
+
+    /**
+     * Sols this rocket needs for a connection
+     */
+    getTravelTimeSols(connection: SpaceConnection): number {
+        return connection.travelTime / this.getSpeedMultiplier();
+    }
+
+    /**
+     * Starts the flight to a connected location. Its duration depends on the sol of the launch.
+     */
+    startTravel(destinationId: SpaceLocation, sol: number): boolean {
         // Cannot travel if already traveling
         if (this.destinationId) return false;
         
         // Cannot travel to same location
         if (this.locationId.getId() === destinationId.getId()) return false;
 
-        const connection = findSpaceConnection(this.locationId.getType(), destinationId.getType());
+        const connection = findSpaceConnection(this.locationId.getType(), destinationId.getType(), sol);
         
         // If no direct connection, maybe just allow it with default time? 
         // For now, only allow valid connections
         if (connection) {
             this.destinationId = destinationId;
-            this.estimatedTravelTime = connection.travelTime * CONFIG.game.minutesPerSol;
+            this.estimatedTravelTime = this.getTravelTimeSols(connection) * CONFIG.game.minutesPerSol;
             this.initialTravelTime = this.estimatedTravelTime;
             return true;
         }
@@ -188,9 +314,9 @@ class Rocket extends StorageHolder {
             location: this.locationId.toData(),
             destination: this.destinationId ? this.destinationId.toData() : null,
             storage: this.toStorageData(),
-            sellRoute: this.sellRoute,
-            sellRouteOriginId: this.sellRouteOriginId,
-            sellRouteState: this.sellRouteState
+            route: this.route ? this.route.toData() : null,
+            waypoints: [...this.waypoints],
+            packedModules: this.packedModules.map(packed => ({ ...packed }))
         };
     }
 
@@ -204,11 +330,16 @@ class Rocket extends StorageHolder {
             const dest = locations.get(data.destination.uuid) ?? SpaceLocation.fromData(data.destination);
             rocket.destinationId = dest;
         }
-        rocket.sellRoute = data.sellRoute ?? false;
-        rocket.sellRouteOriginId = data.sellRouteOriginId ?? null;
-        rocket.sellRouteState = data.sellRouteState ?? SellRouteState.IDLE;
+        rocket.route = data.route ? RouteProgram.fromData(data.route) : null;
+        rocket.waypoints = (data.waypoints ?? []) as LocationType[];
+        rocket.packedModules = (data.packedModules ?? []).map((packed: any) => ({
+            name: String(packed.name),
+            mass: Number(packed.mass),
+            module: packed.module
+        }));
         return rocket;
     }
 }
 
-export { StorageHolder, Rocket, SpaceConnections, SellRouteState, findSpaceConnection };
\ No newline at end of file
+export { StorageHolder, Rocket, SpaceConnections, findSpaceConnection, getOrbitalFactor, getConnectionAt, getNextLaunchWindow };
+export type { SpaceConnection, PackedModule };
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { LocationType } from "./location";
+import { SpaceConnections, getConnectionAt, type Rocket } from "./storage";
+
+/**
+ * What the planner minimizes when it picks a path
+ */
+enum TravelPreference {
+    FASTEST = 'fastest',
+    CHEAPEST = 'cheapest'
+}
+
+type TravelLeg = { from: LocationType; to: LocationType; departureSol: number; travelSols: number; fuelUnits: number };
+
+type TravelPlan = { legs: TravelLeg[]; departureSol: number; travelSols: number; fuelUnits: number };
+
+type TravelPlanOptions = {
+    preference?: TravelPreference;
+    departureSol?: number; // Sol time of the launch, see GameSession.getSolTime. Defaults to 0.
+    // The last leg is an exploration: the rocket flies there and back to survey, doubling its time and fuel
+    explore?: boolean;
+};
+
+/**
+ * Legs a rocket can fly from a location when it launches at the given sol. Connections can be flown in both directions.
+ */
+function getLegsFrom(rocket: Rocket, from: LocationType, departureSol: number): TravelLeg[] {
+    return SpaceConnections
+        .filter(conn => conn.from === from || conn.to === from)
+        .map(conn => getConnectionAt(conn, departureSol))
+        .map(conn => ({
+            from,
+            to: conn.from === from ? conn.to : conn.from,
+            departureSol,
+            travelSols: rocket.getTravelTimeSols(conn),
+            fuelUnits: rocket.getFuelCost(conn)
+        }));
+}
+
+/**
+ * Finds the best path for a rocket over the space connections (Dijkstra).
+ * The rocket refuels between legs, so every stop between origin and target has to be one of the refuel stops.
+ * Each leg is priced for the sol the rocket gets to fly it, so launch windows on the way are taken into account.
+ * Returns null if the target can not be reached.
+ */
+function planTravel(
+    rocket: Rocket,
+    from: LocationType,
+    to: LocationType,
+    refuelStops: Set<LocationType>,
+    options: TravelPlanOptions = {}
+): TravelPlan | null {
+    if (from === to) return null;
+
+    const preference = options.preference ?? TravelPreference.FASTEST;
+    const departureSol = options.departureSol ?? 0;
+    // The other measure breaks ties, so equally fast paths prefer the one that burns less fuel and vice versa
+    const legCost = (leg: TravelLeg) => preference === TravelPreference.FASTEST
+        ? leg.travelSols + leg.fuelUnits * 1e-9
+        : leg.fuelUnits + leg.travelSols * 1e-9;
+
+    const costs = new Map<LocationType, number>([[from, 0]]);
+    const previous = new Map<LocationType, TravelLeg>();
+    const arrivals = new Map<LocationType, number>([[from, departureSol]]);
+    const visited = new Set<LocationType>();
+
+    while (true) {
+        let current: LocationType | null = null;
+        for (const [location, cost] of costs) {
+            if (visited.has(location)) continue;
+            if (current === null || cost < costs.get(current)!) current = location;
+        }
+        if (current === null || current === to) break;
+        visited.add(current);
+
+        // Only the origin and refuel stops can be flown onward from
+        if (current !== from && !refuelStops.has(current)) continue;
+
+        getLegsFrom(rocket, current, arrivals.get(current)!).forEach(leg => {
+            const cost = costs.get(leg.from)! + legCost(leg);
+            if (cost < (costs.get(leg.to) ?? Infinity)) {
+                costs.set(leg.to, cost);
+                previous.set(leg.to, leg);
+                arrivals.set(leg.to, leg.departureSol + leg.travelSols);
+            }
+        });
+    }
+
+    if (!previous.has(to)) return null;
+
+    const legs: TravelLeg[] = [];
+    for (let leg = previous.get(to); leg; leg = leg.from === from ? undefined : previous.get(leg.from)) {
+        legs.unshift({ ...leg });
+    }
+
+    const lastLeg = legs[legs.length - 1];
+    if (options.explore && lastLeg) {
+        lastLeg.travelSols *= 2;
+        lastLeg.fuelUnits *= 2;
+    }
+
+    return {
+        legs,
+        departureSol,
+        travelSols: legs.reduce((total, leg) => total + leg.travelSols, 0),
+        fuelUnits: legs.reduce((total, leg) => total + leg.fuelUnits, 0)
+    };
+}
+
+// Resolution of the launch window forecast in sols
+const WINDOW_FORECAST_STEP = 0.25;
+
+/**
+ * The best launch within the next synodic period: the departure whose plan is fastest or burns
+ * the least fuel, depending on the preference. Waiting itself is not counted, the player weighs that.
+ */
+function forecastLaunchWindow(
+    rocket: Rocket,
+    from: LocationType,
+    to: LocationType,
+    refuelStops: Set<LocationType>,
+    options: TravelPlanOptions = {}
+): TravelPlan | null {
+    const now = options.departureSol ?? 0;
+    const horizon = Math.max(0, ...SpaceConnections.map(conn => conn.synodicPeriod));
+    const planCost = (plan: TravelPlan) => options.preference === TravelPreference.CHEAPEST ? plan.fuelUnits : plan.travelSols;
+
+    let best: TravelPlan | null = null;
+    for (let wait = 0; wait <= horizon; wait += WINDOW_FORECAST_STEP) {
+        const plan = planTravel(rocket, from, to, refuelStops, { ...options, departureSol: now + wait });
+        if (plan && (!best || planCost(plan) < planCost(best))) best = plan;
+    }
+    return best;
+}
+
+export { planTravel, forecastLaunchWindow, TravelPreference };
+export type { TravelLeg, TravelPlan, TravelPlanOptions };
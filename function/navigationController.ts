@@ -8,19 +8,24 @@ import type { GameSession } from './models/sessionModel';
 import { CONFIG } from './config';
 import type { Company, Colony } from './models/company';
 import type { Rocket } from './models/storage';
-import { SellRouteState, SpaceConnections } from './models/storage';
+import { SpaceConnections, getConnectionAt, getNextLaunchWindow } from './models/storage';
 import { modalManager, ModalType } from './modalManager';
 import { GoodsRegistry } from './models/goodsRegistry';
 import { Good, ItemPosition } from './models/good';
 import { hudController } from './hudController';
 import { LocationType, SpaceLocation, getProductionModifierForLocation } from './models/location';
+import type { Market } from './models/market';
+import { TechnologyRegistry, type Technology } from './models/research';
+import { RandomEvents, RandomEventRegistry } from './models/randomEvents';
+import type { GameManager } from './app';
 
 export enum ViewType {
     HOME = 'home',
     LOCATIONS = 'locations',
     ROCKETS = 'rockets',
     COLONIES = 'colonies',
-    BUILDINGS = 'buildings'
+    BUILDINGS = 'buildings',
+    RESEARCH = 'research'
 }
 
 export interface ViewManager {
@@ -34,6 +39,8 @@ class NavigationController implements ViewManager {
     private appContainer: HTMLElement;
     private navButtons: Map<ViewType, HTMLButtonElement>;
     private currentSession: GameSession | null = null;
+    private marketLocation: LocationType = LocationType.EARTH; // Market shown in the market view
+    private gameManager: GameManager | null = null;
 
     constructor() {
         this.appContainer = GUI.query<HTMLElement>('#app') || this.createAppContainer();
@@ -41,6 +48,13 @@ class NavigationController implements ViewManager {
         this.initializeNavigation();
     }
 
+    /**
+     * The simulation the views act on, set once the game is loaded
+     */
+    setGameManager(gameManager: GameManager): void {
+        this.gameManager = gameManager;
+    }
+
     private createAppContainer(): HTMLElement {
         const container = GUI.div({ id: 'app' });
         document.body.appendChild(container);
@@ -62,7 +76,8 @@ class NavigationController implements ViewManager {
             'globe_location_pin': ViewType.LOCATIONS,
             'rocket_launch': ViewType.ROCKETS,
             'planet': ViewType.COLONIES,
-            'add_business': ViewType.BUILDINGS
+            'add_business': ViewType.BUILDINGS,
+            'biotech': ViewType.RESEARCH
         };
 
         buttons.forEach(button => {
@@ -129,55 +144,149 @@ class NavigationController implements ViewManager {
             this.updateMarketValues(session);
         } else if (this.currentView === ViewType.ROCKETS) {
             this.updateRocketsViewIncremental(session);
+        } else if (this.currentView === ViewType.COLONIES) {
+            this.updateColoniesViewIncremental(session);
+        } else if (this.currentView === ViewType.RESEARCH) {
+            this.updateResearchViewIncremental(session);
+        }
+    }
+
+    /**
+     * Update the research progress. Re-renders the view once the queue or the finished technologies changed.
+     */
+    private updateResearchViewIncremental(session: GameSession): void {
+        const researchView = GUI.query<HTMLElement>('.research-view', this.appContainer);
+        if (!researchView || researchView.dataset.state !== this.getResearchState(session)) {
+            this.renderResearchView(session);
+            return;
+        }
+
+        const research = session.company.research;
+        const current = research.getCurrent();
+        const progressFill = GUI.query<HTMLElement>('.research-queue .sol-progress-fill', researchView);
+        const progressText = GUI.query<HTMLElement>('.research-progress-text', researchView);
+        if (current && progressFill && progressText) {
+            progressFill.style.width = `${research.getProgress() * 100}%`;
+            progressText.textContent = this.formatResearchProgress(session);
         }
     }
 
+    /**
+     * Update colony storage, fill rate and inventory without re-rendering the cards
+     */
+    private updateColoniesViewIncremental(session: GameSession): void {
+        const colonyCards = GUI.queryAll<HTMLElement>('.colony-card', this.appContainer);
+
+        session.company.colonies.forEach((colony, index) => {
+            const card = colonyCards[index];
+            if (!card) return;
+
+            const storageEl = GUI.query<HTMLElement>('.colony-storage', card);
+            if (storageEl) {
+                storageEl.textContent = `Storage: ${GUI.formatNumber(colony.getTotalQuantity())}/${GUI.formatNumber(colony.getCapacity())}`;
+            }
+
+            const fillRateEl = GUI.query<HTMLElement>('.colony-fill-rate', card);
+            if (fillRateEl) {
+                fillRateEl.textContent = this.formatColonyFillRate(colony);
+            }
+
+            // Only a good entering or leaving the storage rebuilds the list, otherwise the quantities are updated in place
+            const storageSection = GUI.query<HTMLElement>('.storage-section', card);
+            if (storageSection && storageSection.dataset.goods !== this.getStoredGoodsState(colony)) {
+                card.replaceChild(this.createStorageSection(colony), storageSection);
+            } else if (storageSection) {
+                colony.getItemPositions().forEach(itemPosition => {
+                    const quantityEl = GUI.query<HTMLElement>(`.storage-item[data-good-id="${itemPosition.good.getId()}"] .storage-item-quantity`, storageSection);
+                    if (quantityEl) {
+                        quantityEl.textContent = `×${GUI.formatNumber(itemPosition.quantity, true)}`;
+                    }
+                });
+            }
+        });
+    }
+
+    private getStoredGoodsState(storageHolder: Rocket | Colony): string {
+        return storageHolder.getItemPositions().map(itemPosition => itemPosition.good.getId()).join(',');
+    }
+
+    private formatColonyFillRate(colony: Colony): string {
+        const solsUntilFull = colony.getSolsUntilFull();
+        if (solsUntilFull === null) return 'No production';
+
+        const rate = `+${GUI.formatNumber(colony.getFillRatePerSol())}/sol`;
+        if (solsUntilFull <= 0) return `${rate} - storage full`;
+        return `${rate} - full in ${solsUntilFull.toFixed(1)} sol`;
+    }
+
     /**
      * Update market inventory values without re-rendering
      */
     private updateMarketValues(session: GameSession): void {
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
+        const marketColony = this.getMarketColony(session);
 
-        if (!earthHQ) return;
+        if (!marketColony) return;
 
         // Update inventory text
         const inventoryElements = GUI.queryAll<HTMLElement>('.market-inventory-badge', this.appContainer);
         inventoryElements.forEach(el => {
             const goodId = Number(el.dataset.goodId);
             if (!isNaN(goodId)) {
-                const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === goodId);
+                const item = marketColony.getItemPositions().find(ip => ip.good.getId() === goodId);
                 const quantity = item ? item.quantity : 0;
                 el.textContent = GUI.formatNumber(quantity, true);
             }
         });
 
-        // Update sell buttons state and "All" button price
+        // Update live prices and sparklines
+        GUI.queryAll<HTMLElement>('.market-card', this.appContainer).forEach(card => {
+            const goodId = Number(card.dataset.goodId);
+            if (isNaN(goodId)) return;
+
+            const buyPriceEl = GUI.query<HTMLElement>('.price-tag.buy .price-value', card);
+            if (buyPriceEl) buyPriceEl.textContent = GUI.formatMoney(this.getMarket(session).getBuyPrice(goodId));
+            const sellPriceEl = GUI.query<HTMLElement>('.price-tag.sell .price-value', card);
+            if (sellPriceEl) sellPriceEl.textContent = GUI.formatMoney(this.getMarket(session).getSellPrice(goodId));
+
+            // The history only changes once per sol
+            const sparklineEl = card.querySelector('.sparkline');
+            if (sparklineEl && card.dataset.sparklineSol !== String(session.currentSol)) {
+                sparklineEl.replaceWith(GUI.sparkline(this.getMarket(session).getPriceHistory(goodId)));
+                card.dataset.sparklineSol = String(session.currentSol);
+            }
+        });
+
+        // Update buy button prices
+        GUI.queryAll<HTMLButtonElement>('.btn-buy', this.appContainer).forEach(btn => {
+            const goodId = Number(btn.dataset.goodId);
+            const buyQty = Number(btn.dataset.buyQty);
+            const priceDiv = GUI.query<HTMLElement>('.btn-compact-sub', btn);
+            if (!isNaN(goodId) && !isNaN(buyQty) && priceDiv) {
+                priceDiv.textContent = GUI.formatMoney(this.getMarket(session).quotePurchase(goodId, buyQty));
+            }
+        });
+
+        // Update sell buttons state and quoted revenue
         const sellButtons = GUI.queryAll<HTMLButtonElement>('.btn-sell', this.appContainer);
         sellButtons.forEach(btn => {
             const goodId = Number(btn.dataset.goodId);
             const sellQty = btn.dataset.sellQty;
-            const sellPrice = Number(btn.dataset.sellPrice);
 
-            if (!isNaN(goodId) && !isNaN(sellPrice)) {
-                const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === goodId);
+            if (!isNaN(goodId)) {
+                const item = marketColony.getItemPositions().find(ip => ip.good.getId() === goodId);
                 const quantity = item ? item.quantity : 0;
+                const quotedQty = sellQty === 'all' ? Math.floor(quantity) : Number(sellQty);
+
+                const priceDiv = GUI.query<HTMLElement>('.market-btn-price', btn);
+                if (priceDiv && !isNaN(quotedQty)) {
+                    priceDiv.textContent = GUI.formatMoney(this.getMarket(session).quoteSale(goodId, quotedQty));
+                }
 
                 if (sellQty === 'all') {
-                    // Update the "All" button price display with current inventory
-                    const totalPrice = sellPrice * Math.floor(quantity);
-                    const priceDiv = GUI.query<HTMLElement>('.market-btn-price', btn);
-                    if (priceDiv) {
-                        priceDiv.textContent = quantity > 0 ? GUI.formatMoney(totalPrice) : GUI.formatMoney(0);
-                    }
                     // Disable if quantity is less than 1
                     btn.disabled = quantity < 1;
-                } else {
-                    const numQty = Number(sellQty);
-                    if (!isNaN(numQty)) {
-                        btn.disabled = quantity < numQty;
-                    }
+                } else if (!isNaN(quotedQty)) {
+                    btn.disabled = quantity < quotedQty;
                 }
             }
         });
@@ -185,13 +294,7 @@ class NavigationController implements ViewManager {
         // Update the sell all button
         const sellAllButton = GUI.query<HTMLButtonElement>('.sell-all-button', this.appContainer);
         if (sellAllButton) {
-            let allGoodsPriceCombined = 0;
-            GoodsRegistry.forEach((good) => {
-                const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-                if (item && item.quantity > 0) {
-                    allGoodsPriceCombined += Math.floor(item.quantity) * good.marketSellPrice;
-                }
-            });
+            const allGoodsPriceCombined = this.quoteSellAll(marketColony, session);
 
             // Update the price display in the button
             const costAmountEl = GUI.query<HTMLElement>('.upgrade-cost-amount', sellAllButton);
@@ -295,6 +398,23 @@ class NavigationController implements ViewManager {
             // @ts-expect-error - statValues is NodeListOf<HTMLElement>, but we know the structure
             statValues[3].textContent = GUI.formatMoney(session.company.getMoney());
         }
+
+        // A new level changes the upcoming rewards, so the card is rebuilt
+        const companyCard = GUI.query<HTMLElement>('.company-card', this.appContainer);
+        if (companyCard && companyCard.dataset.level !== String(session.company.getLevel())) {
+            companyCard.replaceWith(this.createCompanyOverviewCard(session.company));
+            return;
+        }
+
+        const eventsCard = GUI.query<HTMLElement>('.random-events-card', this.appContainer);
+        if (eventsCard && eventsCard.dataset.state !== this.getRandomEventsState(session)) {
+            eventsCard.replaceWith(this.createRandomEventsCard(session));
+        }
+
+        const xpFill = GUI.query<HTMLElement>('.company-xp-bar .sol-progress-fill', this.appContainer);
+        if (xpFill) xpFill.style.width = `${this.getCompanyXpProgress(session.company)}%`;
+        const xpText = GUI.query<HTMLElement>('.company-xp-text', this.appContainer);
+        if (xpText) xpText.textContent = this.formatCompanyXp(session.company);
     }
 
     private renderCurrentView(session?: GameSession): void {
@@ -319,6 +439,9 @@ class NavigationController implements ViewManager {
             case ViewType.BUILDINGS:
                 this.renderBuildingsView(session);
                 break;
+            case ViewType.RESEARCH:
+                this.renderResearchView(session);
+                break;
         }
     }
 
@@ -335,6 +458,8 @@ class NavigationController implements ViewManager {
         const statsGrid = this.createQuickStatsGrid(session);
         homeContent.appendChild(statsGrid);
 
+        homeContent.appendChild(this.createRandomEventsCard(session));
+
         // Recent activity (placeholder)
         const activitySection = GUI.div({
             classes: ['activity-section'],
@@ -351,11 +476,32 @@ class NavigationController implements ViewManager {
     }
 
     private createCompanyOverviewCard(company: Company): HTMLElement {
+        const upcoming = company.getUpcomingMilestones().slice(0, 2);
         return GUI.div({
             classes: ['card', 'company-card'],
+            dataset: { level: String(company.getLevel()) },
             children: [
                 GUI.heading(2, { textContent: company.name }),
                 GUI.p({ textContent: `Level ${company.getLevel()}` }),
+                GUI.div({
+                    classes: ['sol-progress-bar', 'company-xp-bar'],
+                    children: [GUI.div({ classes: ['sol-progress-fill'], styles: { width: `${this.getCompanyXpProgress(company)}%` } })]
+                }),
+                GUI.p({ textContent: this.formatCompanyXp(company), classes: ['text-secondary', 'company-xp-text'] }),
+                GUI.div({
+                    classes: ['company-rewards'],
+                    children: upcoming.length > 0
+                        ? upcoming.map(milestone => GUI.p({
+                            textContent: `Level ${milestone.level}: ${milestone.name}`,
+                            classes: ['text-secondary']
+                        }))
+                        : [GUI.p({ textContent: 'All milestones reached', classes: ['text-secondary'] })]
+                }),
+                GUI.button({
+                    classes: ['btn', 'btn-small'],
+                    textContent: 'Details',
+                    onClick: () => modalManager.open(ModalType.COMPANY, company)
+                }),
                 GUI.div({
                     classes: ['company-stats'],
                     children: [
@@ -371,6 +517,66 @@ class NavigationController implements ViewManager {
         });
     }
 
+    /**
+     * Changes whenever an event starts, ends, counts down or is decided
+     */
+    private getRandomEventsState(session: GameSession): string {
+        return JSON.stringify(session.randomEvents.getActive().map(event => [event.id, event.remainingSols, event.choice]));
+    }
+
+    private createRandomEventsCard(session: GameSession): HTMLElement {
+        const card = GUI.div({
+            classes: ['card', 'random-events-card'],
+            dataset: { state: this.getRandomEventsState(session) },
+            children: [GUI.heading(3, { textContent: 'Events' })]
+        });
+
+        const active = session.randomEvents.getActive();
+        if (active.length === 0) {
+            card.appendChild(GUI.p({ textContent: 'All quiet across the company.', classes: ['text-muted'] }));
+            return card;
+        }
+
+        const pending = session.randomEvents.getPendingChoices();
+        active.forEach(event => {
+            const definition = RandomEventRegistry.get(event.definitionId);
+            if (!definition) return;
+            const goodName = event.goodId !== null ? GoodsRegistry.get(event.goodId)?.name : undefined;
+
+            const row = GUI.div({
+                classes: ['random-event'],
+                children: [
+                    GUI.materialIcon(definition.icon),
+                    GUI.div({
+                        classes: ['random-event-info'],
+                        children: [
+                            GUI.span({ textContent: `${definition.name} - ${event.remainingSols} sol left`, classes: ['random-event-name'] }),
+                            GUI.p({ textContent: RandomEvents.describe(event, goodName), classes: ['text-secondary'] })
+                        ]
+                    })
+                ]
+            });
+            if (pending.some(p => p.id === event.id)) {
+                row.appendChild(GUI.button({
+                    classes: ['btn', 'btn-small', 'btn-accent'],
+                    textContent: 'Decide',
+                    onClick: () => modalManager.showRandomEvent(event)
+                }));
+            }
+            card.appendChild(row);
+        });
+
+        return card;
+    }
+
+    private getCompanyXpProgress(company: Company): number {
+        return Math.min(100, company.getXp() / company.getXpForNextLevel() * 100);
+    }
+
+    private formatCompanyXp(company: Company): string {
+        return `${GUI.formatNumber(company.getXp(), true)} / ${GUI.formatNumber(company.getXpForNextLevel())} XP to level ${company.getLevel() + 1}`;
+    }
+
     private createQuickStatsGrid(session: GameSession): HTMLElement {
         const company = session.company;
 
@@ -433,14 +639,18 @@ class NavigationController implements ViewManager {
                 // Get production modifier
                 const productionModifier = getProductionModifierForLocation(location.getType());
 
-                // Find available routes from this location
+                // Connections from this location, priced for a launch now
+                const solTime = session.getSolTime();
                 const availableRoutes = SpaceConnections.filter(
-                    conn => conn.from === location.getType()
+                    conn => conn.from === location.getType() || conn.to === location.getType()
                 ).map(conn => {
+                    const current = getConnectionAt(conn, solTime);
                     return {
-                        destination: conn.to,
-                        travelTime: conn.travelTime,
-                        fuelCost: conn.fuelCost
+                        destination: conn.from === location.getType() ? conn.to : conn.from,
+                        travelTime: current.travelTime,
+                        fuelCost: current.fuelCost,
+                        nextWindowIn: getNextLaunchWindow(conn, solTime) - solTime,
+                        sinceLastWindow: conn.synodicPeriod > 0 ? conn.synodicPeriod - (getNextLaunchWindow(conn, solTime) - solTime) : 0
                     };
                 });
 
@@ -509,6 +719,34 @@ class NavigationController implements ViewManager {
                     locationCard.appendChild(productionSection);
                 }
 
+                // Connections with the next launch window, within a sol of a window counts as open
+                if (availableRoutes.length > 0) {
+                    const connectionsSection = GUI.div({ classes: ['location-section'] });
+                    connectionsSection.appendChild(GUI.heading(4, { textContent: 'Connections' }));
+                    const connectionsList = GUI.div({ classes: ['storage-items-list'] });
+
+                    availableRoutes.forEach(route => {
+                        const windowOpen = route.nextWindowIn < 1 || route.sinceLastWindow < 1;
+                        connectionsList.appendChild(GUI.div({
+                            classes: ['storage-item', 'location-connection'],
+                            children: [
+                                GUI.span({ textContent: route.destination, classes: ['storage-item-name'] }),
+                                GUI.span({
+                                    textContent: `${route.travelTime.toFixed(1)} sol, ${GUI.formatNumber(route.fuelCost)} Fuel`,
+                                    classes: ['storage-item-quantity']
+                                }),
+                                GUI.span({
+                                    textContent: windowOpen ? 'Window open' : `Window in ${route.nextWindowIn.toFixed(1)} sol`,
+                                    classes: windowOpen ? ['location-window', 'open'] : ['location-window']
+                                })
+                            ]
+                        }));
+                    });
+
+                    connectionsSection.appendChild(connectionsList);
+                    locationCard.appendChild(connectionsSection);
+                }
+
 
 
                 locationsList.appendChild(locationCard);
@@ -531,10 +769,10 @@ class NavigationController implements ViewManager {
         } else {
             const rocketsList = GUI.div({ classes: ['rockets-list'] });
 
-            // Sort rockets: normal rockets first, sell route rockets last
+            // Sort rockets: normal rockets first, route rockets last
             const sortedRockets = [...session.rockets].sort((a, b) => {
-                if (a.sellRoute === b.sellRoute) return 0;
-                return a.sellRoute ? 1 : -1;
+                if (!!a.route === !!b.route) return 0;
+                return a.route ? 1 : -1;
             });
 
             sortedRockets.forEach(rocket => {
@@ -553,14 +791,11 @@ class NavigationController implements ViewManager {
         const isExploration = session.explorationMissions.some(m => m.rocketId === rocket.getId());
 
         let status = '';
-        if (rocket.sellRoute) {
-            if (destination) {
-                status = rocket.sellRouteState === SellRouteState.TRAVELING_TO_EARTH
-                    ? `🔄 Sell Route: To Earth`
-                    : `🔄 Sell Route: Returning`;
-            } else {
-                status = `🔄 Sell Route: At ${rocket.getLocation().name}`;
-            }
+        if (rocket.route) {
+            const stopLabel = `stop ${rocket.route.nextStop + 1}/${rocket.route.stops.length}`;
+            status = destination
+                ? `🔄 Route: To ${destination.name} (${stopLabel})`
+                : `🔄 Route: At ${rocket.getLocation().name}`;
         } else {
             status = destination
                 ? (isExploration ? `Exploring ${destination.name}` : `En route to ${destination.name}`)
@@ -610,71 +845,64 @@ class NavigationController implements ViewManager {
             }));
         }
 
+        // Sell the cargo on the local market of whatever colony the rocket is docked at
+        if (dockedLocation && !rocket.route && rocket.getTotalQuantity() > 0) {
+            const market = session.getMarket(dockedLocation.locationId.getType());
+            const quote = rocket.getItemPositions().reduce(
+                (total, item) => total + market.quoteSale(item.good.getId(), Math.floor(item.quantity)), 0
+            );
+            firstRow.appendChild(GUI.button({
+                classes: ['btn', 'btn-small', 'btn-accent'],
+                textContent: `Sell Cargo (${GUI.formatMoney(quote)})`,
+                onClick: () => {
+                    if (this.gameManager) {
+                        this.gameManager.sellRocketCargo(rocket);
+                        hudController.updateMoneyDisplay(session.company.getMoney());
+                    }
+                    this.updateView(session);
+                }
+            }));
+        }
+
         buttonContainer.appendChild(firstRow);
 
-        // Second row: Sell Route toggle or Travel/Explore (only if docked)
-        if (dockedLocation) {
-            const secondRow = GUI.div({
-                classes: ['row'],
-                styles: { gap: '8px' }
-            });
+        // Second row: route controls, and Explore while docked
+        const secondRow = GUI.div({
+            classes: ['row'],
+            styles: { gap: '8px' }
+        });
 
-            // Show sell route toggle only if not at Earth
-            if (dockedLocation.locationId.getType() !== 'Earth') {
-                if (rocket.sellRoute) {
-                    // Show stop button
-                    const stopBtn = GUI.button({
-                        classes: ['btn', 'btn-small', 'btn-danger'],
-                        textContent: 'Stop Sell Route',
-                        onClick: () => {
-                            rocket.sellRoute = false;
-                            rocket.sellRouteOriginId = null;
-                            rocket.sellRouteState = SellRouteState.IDLE;
-                            this.updateView(session);
-                        }
-                    });
-                    secondRow.appendChild(stopBtn);
-                } else {
-                    // Show start button along with other normal buttons
-                    const startSellRouteBtn = GUI.button({
-                        classes: ['btn', 'btn-small', 'btn-accent'],
-                        textContent: 'Start Sell Route',
-                        onClick: () => {
-                            rocket.sellRoute = true;
-                            rocket.sellRouteOriginId = dockedLocation.colonyId;
-                            rocket.sellRouteState = SellRouteState.IDLE;
-
-                            // Start immediately
-                            const gameManager = (window as any).gameManager;
-                            if (gameManager) {
-                                gameManager.handleSellRouteAutomation(rocket);
-                            }
+        if (rocket.route) {
+            secondRow.appendChild(GUI.button({
+                classes: ['btn', 'btn-small', 'btn-accent'],
+                textContent: 'Edit Route',
+                onClick: () => modalManager.open(ModalType.ROUTE_EDITOR, { rocket, session })
+            }));
+            secondRow.appendChild(GUI.button({
+                classes: ['btn', 'btn-small', 'btn-danger'],
+                textContent: 'Stop Route',
+                onClick: () => {
+                    this.gameManager?.stopRoute(rocket);
+                    this.updateView(session);
+                }
+            }));
+        } else if (dockedLocation) {
+            secondRow.appendChild(GUI.button({
+                classes: ['btn', 'btn-small', 'btn-accent'],
+                textContent: 'Set Up Route',
+                onClick: () => modalManager.open(ModalType.ROUTE_EDITOR, { rocket, session })
+            }));
 
-                            this.updateView(session);
-                        }
-                    });
-                    secondRow.appendChild(startSellRouteBtn);
-
-                    // Show Explore button
-                    secondRow.appendChild(GUI.button({
-                        classes: ['btn', 'btn-small'],
-                        textContent: 'Explore',
-                        onClick: () => {
-                            modalManager.open(ModalType.EXPLORATION, { rocket, session });
-                        }
-                    }));
+            secondRow.appendChild(GUI.button({
+                classes: ['btn', 'btn-small'],
+                textContent: 'Explore',
+                onClick: () => {
+                    modalManager.open(ModalType.EXPLORATION, { rocket, session });
                 }
-            } else {
-                // At Earth, only show Explore button (no sell route)
-                secondRow.appendChild(GUI.button({
-                    classes: ['btn', 'btn-small'],
-                    textContent: 'Explore',
-                    onClick: () => {
-                        modalManager.open(ModalType.EXPLORATION, { rocket, session });
-                    }
-                }));
-            }
+            }));
+        }
 
+        if (secondRow.children.length > 0) {
             buttonContainer.appendChild(secondRow);
         }
 
@@ -780,7 +1008,8 @@ class NavigationController implements ViewManager {
                             textContent: `Storage: ${GUI.formatNumber(totalQuantity)}/${GUI.formatNumber(capacity)}`,
                             classes: ['colony-storage']
                         }),
-                        GUI.p({ textContent: `Level ${colony.getLevel()}`, classes: ['colony-level'] })
+                        GUI.p({ textContent: `Level ${colony.getLevel()}`, classes: ['colony-level'] }),
+                        GUI.p({ textContent: this.formatColonyFillRate(colony), classes: ['colony-fill-rate'] })
                     ]
                 }),
                 GUI.div({
@@ -819,31 +1048,197 @@ class NavigationController implements ViewManager {
         return card;
     }
 
+    /**
+     * Changes whenever a technology is queued, cancelled, started or finished
+     */
+    private getResearchState(session: GameSession): string {
+        const research = session.company.research;
+        return JSON.stringify([research.getCompleted(), research.getQueue(), research.isStarted()]);
+    }
+
+    private formatResearchProgress(session: GameSession): string {
+        const research = session.company.research;
+        const current = research.getCurrent();
+        if (!current) return '';
+        if (!research.isStarted()) return 'Waiting for credits and science goods';
+
+        const remainingSol = current.researchSols * (1 - research.getProgress());
+        return `${Math.round(research.getProgress() * 100)}% - ${remainingSol.toFixed(1)} sol remaining`;
+    }
+
+    private formatResearchCosts(tech: Technology): string {
+        const goods = tech.goods.map(({ goodId, quantity }) =>
+            `${quantity}x ${GoodsRegistry.get(goodId)?.name ?? `Good #${goodId}`}`);
+        return [GUI.formatMoney(tech.credits), ...goods].join(', ');
+    }
+
+    private renderResearchView(session: GameSession): void {
+        GUI.clearChildren(this.appContainer);
+
+        const research = session.company.research;
+        const researchView = GUI.div({ classes: ['research-view'], dataset: { state: this.getResearchState(session) } });
+        researchView.appendChild(GUI.heading(2, { textContent: 'Research' }));
+
+        const rerender = () => this.renderResearchView(session);
+
+        // Queue: the head is researched first, the rest waits
+        const queueCard = GUI.div({ classes: ['card', 'research-queue'] });
+        queueCard.appendChild(GUI.heading(3, { textContent: 'Queue' }));
+        const queue = research.getQueue();
+        if (queue.length === 0) {
+            queueCard.appendChild(GUI.p({ textContent: 'Nothing queued. Pick a technology below.', classes: ['text-muted'] }));
+        }
+        queue.forEach((techId, index) => {
+            const tech = TechnologyRegistry.get(techId);
+            if (!tech) return;
+
+            const cancelButton = GUI.button({
+                classes: ['btn', 'btn-small'],
+                textContent: 'Cancel',
+                onClick: () => {
+                    if (this.gameManager?.dequeueResearch(techId)) rerender();
+                }
+            });
+            // Paid research can not be cancelled
+            cancelButton.disabled = index === 0 && research.isStarted();
+
+            const entry = GUI.div({ classes: ['research-queue-entry'] });
+            entry.appendChild(GUI.div({
+                classes: ['row', 'research-queue-header'],
+                children: [
+                    GUI.materialIcon(tech.icon),
+                    GUI.span({ textContent: `${index + 1}. ${tech.name}`, classes: ['research-queue-name'] }),
+                    cancelButton
+                ]
+            }));
+
+            if (index === 0) {
+                entry.appendChild(GUI.div({
+                    classes: ['sol-progress-bar'],
+                    children: [
+                        GUI.div({ classes: ['sol-progress-fill'], styles: { width: `${research.getProgress() * 100}%` } })
+                    ]
+                }));
+                entry.appendChild(GUI.p({ textContent: this.formatResearchProgress(session), classes: ['text-secondary', 'research-progress-text'] }));
+            }
+            queueCard.appendChild(entry);
+        });
+        researchView.appendChild(queueCard);
+
+        // Dependency graph: one column per tier, a technology sits one tier right of its deepest prerequisite
+        const tiers = new Map<string, number>();
+        const getTier = (tech: Technology): number => {
+            if (!tiers.has(tech.id)) {
+                const requiredTiers = tech.requires
+                    .map(required => TechnologyRegistry.get(required))
+                    .filter((required): required is Technology => required !== undefined)
+                    .map(required => getTier(required) + 1);
+                tiers.set(tech.id, Math.max(0, ...requiredTiers));
+            }
+            return tiers.get(tech.id)!;
+        };
+        const columns: Technology[][] = [];
+        TechnologyRegistry.forEach(tech => {
+            const tier = getTier(tech);
+            (columns[tier] ??= []).push(tech);
+        });
+
+        const graph = GUI.div({ classes: ['research-graph'] });
+        columns.forEach((technologies, tier) => {
+            const column = GUI.div({ classes: ['research-tier'] });
+            column.appendChild(GUI.span({ textContent: `Tier ${tier + 1}`, classes: ['text-muted'] }));
+            technologies.forEach(tech => column.appendChild(this.createTechnologyCard(tech, session, rerender)));
+            graph.appendChild(column);
+        });
+        researchView.appendChild(graph);
+
+        this.appContainer.appendChild(researchView);
+    }
+
+    private createTechnologyCard(tech: Technology, session: GameSession, rerender: () => void): HTMLElement {
+        const research = session.company.research;
+        const completed = research.isCompleted(tech.id);
+        const queued = research.getQueue().includes(tech.id);
+        const status = completed ? 'completed' : queued ? 'queued' : research.canEnqueue(tech.id) ? 'available' : 'locked';
+
+        const requires = tech.requires
+            .map(required => TechnologyRegistry.get(required)?.name ?? required)
+            .join(', ');
+
+        const card = GUI.div({
+            classes: ['card', 'research-card', status],
+            children: [
+                GUI.div({
+                    classes: ['row', 'research-card-header'],
+                    children: [
+                        GUI.materialIcon(tech.icon, { classes: ['research-icon'] }),
+                        GUI.heading(3, { textContent: tech.name })
+                    ]
+                }),
+                GUI.p({ textContent: tech.description, classes: ['text-secondary'] }),
+                GUI.p({ textContent: `Requires: ${requires || 'nothing'}`, classes: ['research-detail'] }),
+                GUI.p({ textContent: `Cost: ${this.formatResearchCosts(tech)}`, classes: ['research-detail'] }),
+                GUI.p({ textContent: `Duration: ${tech.researchSols} sol`, classes: ['research-detail'] })
+            ]
+        });
+
+        if (completed || queued) {
+            card.appendChild(GUI.p({ textContent: completed ? 'Researched' : 'Queued', classes: ['research-status'] }));
+        } else {
+            const researchButton = GUI.button({
+                classes: ['btn', 'btn-small', 'btn-accent'],
+                textContent: 'Research',
+                onClick: () => {
+                    if (this.gameManager?.enqueueResearch(tech.id)) rerender();
+                }
+            });
+            researchButton.disabled = status === 'locked';
+            card.appendChild(researchButton);
+        }
+
+        return card;
+    }
+
     private renderBuildingsView(session: GameSession): void {
         GUI.clearChildren(this.appContainer);
 
         const buildingsView = GUI.div({ classes: ['buildings-view', 'market-view'] });
-        buildingsView.appendChild(GUI.heading(2, { textContent: 'World Market (Earth)' }));
+        // Fall back to Earth if the selected location has no colony (anymore)
+        const marketLocations = session.getMarketLocationTypes();
+        if (!marketLocations.includes(this.marketLocation)) {
+            this.marketLocation = LocationType.EARTH;
+        }
+
+        // Calculate total value of all goods stored at the market's colony
+        const marketColony = this.getMarketColony(session);
+
+        buildingsView.appendChild(GUI.heading(2, { textContent: `Market (${this.marketLocation})` }));
         buildingsView.appendChild(GUI.p({
-            textContent: 'Buy and sell goods at Earth market prices',
+            textContent: marketColony
+                ? `Buy and sell goods at ${this.marketLocation} prices, trading through ${marketColony.name}`
+                : `Buy and sell goods at ${this.marketLocation} prices`,
             classes: ['market-description']
         }));
 
-        // Calculate total value of all goods in Earth HQ
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
-
-        let allGoodsPriceCombined = 0;
-        if (earthHQ) {
-            GoodsRegistry.forEach((good) => {
-                const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-                if (item && item.quantity > 0) {
-                    allGoodsPriceCombined += Math.floor(item.quantity) * good.marketSellPrice;
-                }
-            });
+        // Location selector: one market per colonized location type
+        if (marketLocations.length > 1) {
+            buildingsView.appendChild(GUI.div({
+                classes: ['market-location-selector'],
+                children: marketLocations.map(locationType => GUI.button({
+                    classes: locationType === this.marketLocation
+                        ? ['btn', 'btn-small', 'btn-accent']
+                        : ['btn', 'btn-small'],
+                    textContent: locationType,
+                    onClick: () => {
+                        this.marketLocation = locationType;
+                        this.renderBuildingsView(session);
+                    }
+                }))
+            }));
         }
 
+        const allGoodsPriceCombined = marketColony ? this.quoteSellAll(marketColony, session) : 0;
+
         // Create sell all button
         const sellAllButton = GUI.upgradeButton('Sell all goods', allGoodsPriceCombined, 'sell', () => {
             this.handleSellAllGoods(session);
@@ -863,39 +1258,45 @@ class NavigationController implements ViewManager {
         this.appContainer.appendChild(buildingsView);
     }
 
+    private getMarket(session: GameSession): Market {
+        return session.getMarket(this.marketLocation);
+    }
+
+    /**
+     * The colony whose storage is used to trade on the selected market
+     */
+    private getMarketColony(session: GameSession): Colony | undefined {
+        return session.company.colonies.find(c => c.locationId.getType() === this.marketLocation);
+    }
+
     private createMarketGoodCard(good: Good, session: GameSession): HTMLElement {
-        // Find the Earth HQ colony
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
+        // Find the colony that trades on the selected market
+        const marketColony = this.getMarketColony(session);
 
-        // Get quantity player has in Earth HQ storage
+        // Get quantity player has in the colony's storage
         let playerQuantity = 0;
-        if (earthHQ) {
-            const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
+        if (marketColony) {
+            const item = marketColony.getItemPositions().find(ip => ip.good.getId() === good.getId());
             if (item) playerQuantity = item.quantity;
         }
 
-        const iconMap: { [key: string]: string } = {
-            'Food': 'dining',
-            'Electronics': 'memory',
-            'Fuel': 'oil_barrel',
-            'ISRU': 'factory'
-        };
-        // Specific overrides
-        if (good.name === 'O2') iconMap['Fuel'] = 'spo2';
-        if (good.name === 'Water') iconMap['Food'] = 'water_drop';
+        const goodId = good.getId();
+        const buyPrice = this.getMarket(session).getBuyPrice(goodId);
+        const sellPrice = this.getMarket(session).getSellPrice(goodId);
 
-        const icon = iconMap[good.category] || 'inventory_2';
+        // Sell price over the last sols
+        const priceHistory = GUI.div({ classes: ['market-price-history'] });
+        priceHistory.appendChild(GUI.sparkline(this.getMarket(session).getPriceHistory(goodId)));
 
         const card = GUI.div({
             classes: ['market-card', 'card'],
+            dataset: { goodId: String(goodId), sparklineSol: String(session.currentSol) },
             children: [
                 // Header: Icon + Name + Inventory Badge
                 GUI.div({
                     classes: ['market-header'],
                     children: [
-                        GUI.materialIcon(icon, { classes: ['market-icon'] }),
+                        GUI.materialIcon(good.icon, { classes: ['market-icon'] }),
                         GUI.div({
                             classes: ['market-title-group'],
                             children: [
@@ -906,7 +1307,7 @@ class NavigationController implements ViewManager {
                         GUI.div({
                             classes: ['market-inventory-badge'],
                             textContent: GUI.formatNumber(playerQuantity, true),
-                            dataset: { goodId: String(good.getId()) }
+                            dataset: { goodId: String(goodId) }
                         })
                     ]
                 }),
@@ -919,30 +1320,31 @@ class NavigationController implements ViewManager {
                             classes: ['price-tag', 'buy'],
                             children: [
                                 GUI.span({ textContent: 'B:', classes: [] }),
-                                GUI.span({ textContent: GUI.formatMoney(good.marketBuyPrice) })
+                                GUI.span({ textContent: GUI.formatMoney(buyPrice), classes: ['price-value'] })
                             ]
                         }),
                         GUI.div({
                             classes: ['price-tag', 'sell'],
                             children: [
                                 GUI.span({ textContent: 'S:', classes: [] }),
-                                GUI.span({ textContent: GUI.formatMoney(good.marketSellPrice) })
+                                GUI.span({ textContent: GUI.formatMoney(sellPrice), classes: ['price-value'] })
                             ]
                         })
                     ]
                 }),
+                priceHistory,
 
                 // Actions
                 GUI.div({
                     classes: ['market-actions-compact'],
                     children: [
                         // Row 1: Buy
-                        this.createCompactButton('Buy 1', GUI.formatMoney(good.marketBuyPrice), 'btn-buy', () => this.handleMarketBuy(good, good.marketBuyPrice, 1, session), good),
-                        this.createCompactButton('Buy 10', GUI.formatMoney(good.marketBuyPrice * 10), 'btn-buy', () => this.handleMarketBuy(good, good.marketBuyPrice, 10, session), good),
+                        this.createCompactBuyButton(good, 1, 'Buy 1', session),
+                        this.createCompactBuyButton(good, 10, 'Buy 10', session),
 
                         // Row 2: Sell
-                        this.createCompactSellButton(good, good.marketSellPrice, 1, 'Sell 1', session),
-                        this.createCompactSellButton(good, good.marketSellPrice, -1, 'Sell All', session)
+                        this.createCompactSellButton(good, 1, 'Sell 1', session),
+                        this.createCompactSellButton(good, -1, 'Sell All', session)
                     ]
                 })
             ]
@@ -951,40 +1353,33 @@ class NavigationController implements ViewManager {
         return card;
     }
 
-    private createCompactButton(label: string, subText: string, btnClass: string, onClick: () => void, good: Good): HTMLButtonElement {
+    private createCompactBuyButton(good: Good, quantity: number, label: string, session: GameSession): HTMLButtonElement {
         return GUI.button({
-            classes: ['btn', btnClass, 'btn-compact'],
-            dataset: { goodId: String(good.getId()) },
+            classes: ['btn', 'btn-buy', 'btn-compact'],
+            dataset: { goodId: String(good.getId()), buyQty: String(quantity) },
             children: [
                 GUI.div({ classes: ['btn-compact-label'], textContent: label }),
-                GUI.div({ classes: ['btn-compact-sub'], textContent: subText })
+                GUI.div({ classes: ['btn-compact-sub'], textContent: GUI.formatMoney(this.getMarket(session).quotePurchase(good.getId(), quantity)) })
             ],
-            onClick: onClick
+            onClick: () => this.handleMarketBuy(good, quantity, session)
         });
     }
 
-    private createCompactSellButton(good: Good, price: number, quantity: number, label: string, session: GameSession): HTMLButtonElement {
+    private createCompactSellButton(good: Good, quantity: number, label: string, session: GameSession): HTMLButtonElement {
         const isAllButton = quantity === -1;
+        const marketColony = this.getMarketColony(session);
+        const item = marketColony?.getItemPositions().find(ip => ip.good.getId() === good.getId());
+        const playerQuantity = item ? item.quantity : 0;
 
-        // Calculate initial price for display (if available)
-        let displayPrice = "??";
-        if (isAllButton) {
-            const earthHQ = session.company.colonies.find(c => c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ');
-            if (earthHQ) {
-                const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-                const currentQty = item ? Math.floor(item.quantity) : 0;
-                displayPrice = currentQty > 0 ? GUI.formatMoney(price * currentQty) : GUI.formatMoney(0);
-            }
-        } else {
-            displayPrice = GUI.formatMoney(price * quantity);
-        }
+        // Quote the revenue including the price impact of the sale
+        const quotedQty = isAllButton ? Math.floor(playerQuantity) : quantity;
+        const displayPrice = GUI.formatMoney(this.getMarket(session).quoteSale(good.getId(), quotedQty));
 
         const button = GUI.button({
             classes: ['btn', 'btn-sell', 'btn-compact'],
             dataset: {
                 goodId: String(good.getId()),
-                sellQty: isAllButton ? 'all' : String(quantity),
-                sellPrice: String(price)
+                sellQty: isAllButton ? 'all' : String(quantity)
             },
             children: [
                 GUI.div({ classes: ['btn-compact-label'], textContent: label }),
@@ -992,70 +1387,51 @@ class NavigationController implements ViewManager {
             ],
             onClick: () => {
                 if (isAllButton) {
-                    const earthHQ = session.company.colonies.find(c => c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ');
-                    if (earthHQ) {
-                        const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-                        const currentQty = item ? Math.floor(item.quantity) : 0;
-                        if (currentQty > 0) {
-                            this.handleMarketSell(good, price, currentQty, session);
-                        }
+                    const currentItem = marketColony?.getItemPositions().find(ip => ip.good.getId() === good.getId());
+                    const currentQty = currentItem ? Math.floor(currentItem.quantity) : 0;
+                    if (currentQty > 0) {
+                        this.handleMarketSell(good, currentQty, session);
                     }
                 } else {
-                    this.handleMarketSell(good, price, quantity, session);
+                    this.handleMarketSell(good, quantity, session);
                 }
             }
         });
 
         // Check if button should be disabled
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
-        if (earthHQ) {
-            const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-            const playerQuantity = item ? item.quantity : 0;
-
-            if (isAllButton) {
-                if (playerQuantity < 1) {
-                    button.disabled = true;
-                }
-            } else {
-                if (playerQuantity < quantity) {
-                    button.disabled = true;
-                }
-            }
-        } else {
-            // If no HQ found, disable sell buttons implicitly? 
-            // Though current logic allowed them enabled if !isAllButton in some cases if earthHQ was missing earlier in code but here it checks
-            // Safest to just keep existing logic structure but extended
+        if (marketColony) {
+            button.disabled = isAllButton ? playerQuantity < 1 : playerQuantity < quantity;
         }
 
-
         return button;
     }
 
-    private handleMarketBuy(good: Good, price: number, quantity: number, session: GameSession): void {
-        const totalCost = price * quantity;
-
-        if (!session.company.deductMoney(totalCost)) {
-            alert('Not enough money!');
-            return;
-        }
+    /**
+     * Revenue of selling every whole unit stored at the colony at the current market prices
+     */
+    private quoteSellAll(marketColony: Colony, session: GameSession): number {
+        let total = 0;
+        marketColony.getItemPositions().forEach(item => {
+            const quantity = Math.floor(item.quantity);
+            if (quantity > 0) {
+                total += this.getMarket(session).quoteSale(item.good.getId(), quantity);
+            }
+        });
+        return total;
+    }
 
-        // Find the Earth HQ colony
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
+    private handleMarketBuy(good: Good, quantity: number, session: GameSession): void {
+        // Find the colony that trades on the selected market
+        const marketColony = this.getMarketColony(session);
 
-        if (!earthHQ) {
-            session.company.addMoney(totalCost); // Refund
-            alert('Earth HQ not found!');
+        if (!marketColony || !this.gameManager) {
+            alert('No colony at this market!');
             return;
         }
 
-        // Check if there's enough storage space
-        if (!earthHQ.addItemPosition(new ItemPosition(good, quantity))) {
-            session.company.addMoney(totalCost); // Refund
-            alert('Not enough storage space at Earth HQ!');
+        const result = this.gameManager.buyColonyGoods(marketColony, good.getId(), quantity);
+        if (!result.ok) {
+            alert(result.message);
             return;
         }
 
@@ -1064,81 +1440,49 @@ class NavigationController implements ViewManager {
         this.updateMarketValues(session);
     }
 
-    private handleMarketSell(good: Good, price: number, quantity: number, session: GameSession): void {
-        // Find the Earth HQ colony
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
+    private handleMarketSell(good: Good, quantity: number, session: GameSession): void {
+        // Find the colony that trades on the selected market
+        const marketColony = this.getMarketColony(session);
 
-        if (!earthHQ) {
-            alert('Earth HQ not found!');
+        if (!marketColony || !this.gameManager) {
+            alert('No colony at this market!');
             return;
         }
 
         // Check if we have enough goods to sell
-        const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
+        const item = marketColony.getItemPositions().find(ip => ip.good.getId() === good.getId());
         if (!item || item.quantity < quantity) {
             alert('Not enough goods to sell!');
             return;
         }
 
-        // Remove goods from Earth HQ
-        if (!earthHQ.reduceItemQuantity(good.getId(), quantity)) {
-            alert('Error selling goods!');
-            return;
-        }
-
-        // Remove item if quantity is 0
-        if (item.quantity === 0) {
-            earthHQ.removeItemPosition(good.getId());
-        }
-
-        const totalEarned = price * quantity;
-        session.company.addMoney(totalEarned);
+        this.gameManager.sellColonyGoods(marketColony, [{ goodId: good.getId(), quantity }]);
         hudController.updateMoneyDisplay(session.company.getMoney());
         // Update market values
         this.updateMarketValues(session);
     }
 
     private handleSellAllGoods(session: GameSession): void {
-        // Find the Earth HQ colony
-        const earthHQ = session.company.colonies.find(c =>
-            c.locationId.name === 'Earth HQ' || c.name === 'Earth HQ'
-        );
+        // Find the colony that trades on the selected market
+        const marketColony = this.getMarketColony(session);
 
-        if (!earthHQ) {
-            alert('Earth HQ not found!');
+        if (!marketColony || !this.gameManager) {
+            alert('No colony at this market!');
             return;
         }
 
-        let totalEarned = 0;
-        const itemsToSell: Array<{ good: Good, quantity: number, price: number }> = [];
-
         // Collect all items to sell
-        GoodsRegistry.forEach((good) => {
-            const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-            if (item && item.quantity > 0) {
-                const quantity = Math.floor(item.quantity);
-                itemsToSell.push({ good, quantity, price: good.marketSellPrice });
-                totalEarned += quantity * good.marketSellPrice;
-            }
-        });
+        const itemsToSell = marketColony.getItemPositions()
+            .filter(item => item.quantity >= 1)
+            .map(item => ({ goodId: item.good.getId(), quantity: Math.floor(item.quantity) }));
 
         if (itemsToSell.length === 0) {
             alert('No goods to sell!');
             return;
         }
 
-        // Sell all items
-        itemsToSell.forEach(({ good, quantity }) => {
-            earthHQ.reduceItemQuantity(good.getId(), quantity);
-            const item = earthHQ.getItemPositions().find(ip => ip.good.getId() === good.getId());
-            if (item && item.quantity === 0) {
-                earthHQ.removeItemPosition(good.getId());
-            }
-        });
-
-        session.company.addMoney(totalEarned);
+        // Sell all items at the live price
+        this.gameManager.sellColonyGoods(marketColony, itemsToSell);
         hudController.updateMoneyDisplay(session.company.getMoney());
         // Update market values
         this.updateMarketValues(session);
@@ -1174,7 +1518,7 @@ class NavigationController implements ViewManager {
     private createStorageSection(storageHolder: Rocket | Colony | any): HTMLElement {
         const items = storageHolder.getItemPositions();
 
-        const storageSection = GUI.div({ classes: ['storage-section'] });
+        const storageSection = GUI.div({ classes: ['storage-section'], dataset: { goods: this.getStoredGoodsState(storageHolder) } });
 
         if (items.length === 0) {
             storageSection.appendChild(GUI.p({
@@ -1187,6 +1531,7 @@ class NavigationController implements ViewManager {
             items.forEach((itemPosition: any) => {
                 const itemCard = GUI.div({
                     classes: ['storage-item'],
+                    dataset: { goodId: String(itemPosition.good.getId()) },
                     children: [
                         GUI.span({
                             textContent: itemPosition.good.name,
@@ -4,9 +4,12 @@ const STORE_NAME = "saves";
 
 export type SaveRecord = {
     slot: string;
+    name?: string; // Shown in the save manager, the company name if missing
+    backupOf?: string; // Set on backups: the slot they were copied from
     payload: any;
     savedAt: number;
     version: number;
+    checksum?: string; // Of the JSON payload, checked on load. Missing on older records.
 };
 
 function openDatabase(): Promise<IDBDatabase> {
@@ -58,3 +61,28 @@ export async function deleteSave(slot: string): Promise<void> {
         tx.onerror = () => reject(tx.error);
     });
 }
+
+export async function listSaves(): Promise<SaveRecord[]> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const store = tx.objectStore(STORE_NAME);
+        const request = store.getAll();
+        request.onsuccess = () => resolve(request.result ?? []);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Saves whose slot starts with the prefix, read through a key range so other slots stay on disk
+ */
+export async function listSavesWithPrefix(prefix: string): Promise<SaveRecord[]> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, "readonly");
+        const store = tx.objectStore(STORE_NAME);
+        const request = store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+        request.onsuccess = () => resolve(request.result ?? []);
+        request.onerror = () => reject(request.error);
+    });
+}
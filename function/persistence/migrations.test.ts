@@ -0,0 +1,181 @@
+import { describe, expect, test } from "bun:test";
+import { migrateSave, SAVE_VERSION } from "./migrations";
+import { validateSave } from "./saveSchema";
+
+/**
+ * A version 1 save with one rocket on the old two-leg sell route from Mars to Earth
+ */
+function legacySellRouteSave(sellRouteState: string): any {
+    const location = (type: string) => ({ type, name: type, uuid: `loc-${type}` });
+    return {
+        sessionId: "session",
+        playerName: "Player",
+        company: {
+            id: "company",
+            name: "Mars Inc.",
+            colonies: [
+                { colonyId: "earth", name: "Earth HQ", location: location("Earth") },
+                { colonyId: "mars", name: "Mars Base", location: location("Mars") }
+            ]
+        },
+        rockets: [{
+            id: "rocket",
+            name: "Rocket",
+            estimatedTravelTime: 0,
+            location: location(sellRouteState === "selling" ? "Earth" : "Mars"),
+            sellRoute: true,
+            sellRouteOriginId: "mars",
+            sellRouteState
+        }]
+    };
+}
+
+describe("legacy sell route migration", () => {
+    const cases: [string, number][] = [
+        ["idle", 0],
+        ["loading", 0],
+        ["to_earth", 1],
+        ["selling", 1],
+        ["to_origin", 0]
+    ];
+
+    test.each(cases)("a rocket in state %s continues at stop %d", (state, nextStop) => {
+        const payload = migrateSave(legacySellRouteSave(state), 1);
+        const rocket = payload.rockets[0];
+
+        expect(rocket.route.stops.map((stop: any) => stop.colonyId)).toEqual(["mars", "earth"]);
+        expect(rocket.route.nextStop).toBe(nextStop);
+        expect(rocket.sellRouteState).toBeUndefined();
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("saves of the current version are left alone", () => {
+        const payload = migrateSave(legacySellRouteSave("selling"), 1);
+        expect(migrateSave(payload, SAVE_VERSION)).toEqual(payload);
+    });
+});
+
+describe("version 1 saves", () => {
+    test("get a random events seed derived from the save", () => {
+        const first = migrateSave(legacySellRouteSave("idle"), 1);
+        const second = migrateSave(legacySellRouteSave("idle"), 1);
+        const otherCompany = legacySellRouteSave("idle");
+        otherCompany.company.name = "Other Inc.";
+
+        expect(first.randomEvents.seed).toBe(second.randomEvents.seed);
+        expect(first.randomEvents.state).toBe(first.randomEvents.seed);
+        expect(migrateSave(otherCompany, 1).randomEvents.seed).not.toBe(first.randomEvents.seed);
+    });
+
+    test("fill in the fields they lack", () => {
+        const legacy = legacySellRouteSave("idle");
+        legacy.market = { locationType: "Earth", entries: [] };
+        const payload = migrateSave(legacy, 1);
+
+        expect(payload.company.credits).toBe(0);
+        expect(payload.company.colonies[0].population).toBe(10);
+        expect(payload.markets).toEqual([{ locationType: "Earth", entries: [] }]);
+        expect(payload.market).toBeUndefined();
+        expect(validateSave(payload)).toEqual([]);
+    });
+});
+
+/**
+ * A save of the given version: a migrated version 1 save with a module and a market entry,
+ * less the fields that the steps from that version on fill in
+ */
+function saveOfVersion(version: number): any {
+    const payload = migrateSave(legacySellRouteSave("idle"), 1);
+    const colony = payload.company.colonies[0];
+    colony.colonyModules = [{ type: "production", goodId: 1, level: 2, powerPriority: "high" }];
+    payload.markets = [{ locationType: "Earth", entries: [{ goodId: 1, drift: 1.1, saturation: 0.2, demand: 0.3, history: [40] }] }];
+
+    if (version <= 2) colony.colonyModules.forEach((entry: any) => delete entry.powerPriority);
+    if (version <= 3) {
+        delete colony.storageReservations;
+        delete colony.storageLosses;
+    }
+    if (version <= 4) delete colony.overflowPolicy;
+    if (version <= 5) payload.rockets.forEach((rocket: any) => delete rocket.packedModules);
+    if (version <= 7) payload.markets.forEach((market: any) => market.entries.forEach((entry: any) => delete entry.demand));
+    return payload;
+}
+
+describe("migration steps", () => {
+    test("version 2: modules run at normal power priority", () => {
+        const payload = migrateSave(saveOfVersion(2), 2);
+        expect(payload.company.colonies[0].colonyModules[0]).toEqual({ type: "production", goodId: 1, level: 2, powerPriority: "normal" });
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("version 3: colonies start without reservations and losses", () => {
+        const payload = migrateSave(saveOfVersion(3), 3);
+        expect(payload.company.colonies[0].storageReservations).toEqual({});
+        expect(payload.company.colonies[0].storageLosses).toEqual([]);
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("version 4: colonies discard their overflow", () => {
+        const payload = migrateSave(saveOfVersion(4), 4);
+        expect(payload.company.colonies[0].overflowPolicy).toBe("discard");
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("version 5: rockets carry no packed modules", () => {
+        const payload = migrateSave(saveOfVersion(5), 5);
+        expect(payload.rockets[0].packedModules).toEqual([]);
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("version 7: markets start without buying pressure", () => {
+        const payload = migrateSave(saveOfVersion(7), 7);
+        expect(payload.markets[0].entries).toEqual([{ goodId: 1, drift: 1.1, saturation: 0.2, demand: 0, history: [40] }]);
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("fields an older save already holds are kept", () => {
+        const payload = saveOfVersion(SAVE_VERSION);
+        expect(migrateSave(payload, 2)).toEqual(payload);
+    });
+});
+
+describe("storage class migration", () => {
+    /**
+     * A version 6 save of a level 1 colony on Earth holding the given goods
+     */
+    function storedGoodsSave(items: { good: number; quantity: number }[]): any {
+        const payload = migrateSave(legacySellRouteSave("idle"), 1);
+        payload.company.colonies[0].storage.items = items;
+        return payload;
+    }
+
+    test("goods beyond a class's capacity are sold, cheapest first", () => {
+        // Fuel and Research Samples are cryogenic, a level 1 colony holds the class minimum
+        const payload = migrateSave(storedGoodsSave([{ good: 3, quantity: 50 }, { good: 16, quantity: 30 }]), 6);
+
+        expect(payload.company.colonies[0].storage.items).toEqual([{ good: 3, quantity: 30 }, { good: 16, quantity: 30 }]);
+        expect(payload.company.credits).toBe(20 * 70);
+        expect(payload.company.colonies[0].storageLosses).toEqual([{ sol: 1, goodId: 3, quantity: 20, earned: 20 * 70 }]);
+        expect(validateSave(payload)).toEqual([]);
+    });
+
+    test("class storage infrastructure and the location add capacity", () => {
+        // A level 1 Mars colony with a Cryo Vault holds 1575 cryogenic units
+        const payload = storedGoodsSave([{ good: 3, quantity: 1600 }]);
+        const colony = payload.company.colonies[0];
+        colony.location = { type: "Mars", name: "Mars", uuid: "loc-Mars" };
+        colony.colonyModules = [{ type: "infrastructure", infrastructureId: 12, level: 1, powerPriority: "normal" }];
+
+        const migrated = migrateSave(payload, 6);
+        expect(migrated.company.colonies[0].storage.items).toEqual([{ good: 3, quantity: 1575 }]);
+        expect(migrated.company.credits).toBe(25 * 70);
+    });
+
+    test("goods within capacity are kept", () => {
+        const items = [{ good: 3, quantity: 50 }, { good: 7, quantity: 50 }];
+        const payload = migrateSave(storedGoodsSave(items), 6);
+
+        expect(payload.company.colonies[0].storage.items).toEqual(items);
+        expect(payload.company.credits).toBe(0);
+    });
+});
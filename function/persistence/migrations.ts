@@ -0,0 +1,234 @@
+import { checksum } from "./saveFile";
+
+/**
+ * A step that turns a payload of save version `from` into one of version `from + 1`.
+ * Steps work on the plain JSON payload, never on model classes, so they keep working when the models change.
+ */
+type Migration = {
+    from: number;
+    description: string;
+    migrate: (payload: any) => any;
+};
+
+/**
+ * Storage rules and sell prices of save version 6, as step 6 checks stored goods against them.
+ * They are copied here so the step gives the same result after the game's balance changes.
+ */
+const VERSION_6_STORAGE = {
+    baseCapacity: 100,
+    capacityGrowth: 1.175,
+    classShares: { bulk: 0.45, liquid: 0.2, gas: 0.15, cryogenic: 0.1, fragile: 0.1 } as Record<string, number>,
+    classMinimums: { bulk: 50, liquid: 50, gas: 60, cryogenic: 60, fragile: 40 } as Record<string, number>,
+    // Squared into the capacity factor of a location type
+    locationModifiers: { Earth: 1, Moon: 4, Mars: 5, "Space Station": 0.5 } as Record<string, number>,
+    // Storage infrastructure grows by this factor per level from its base capacity
+    curveFactor: 1.2,
+    storeroom: 1,
+    storeroomBase: 200,
+    // Infrastructure type to the storage class it adds to and its base capacity
+    classStorage: { 10: ["liquid", 80], 11: ["gas", 60], 12: ["cryogenic", 50], 13: ["fragile", 50] } as Record<number, [string, number]>,
+    // Good id to its storage class and base sell price
+    goods: {
+        1: ["bulk", 40], 2: ["liquid", 25], 3: ["cryogenic", 70], 4: ["fragile", 350], 5: ["fragile", 200],
+        6: ["fragile", 280], 7: ["gas", 50], 8: ["fragile", 1100], 9: ["fragile", 1800], 10: ["bulk", 10],
+        11: ["bulk", 35], 12: ["gas", 3000], 13: ["bulk", 120], 14: ["bulk", 650], 15: ["fragile", 2600],
+        16: ["cryogenic", 1400], 17: ["bulk", 45], 18: ["bulk", 850], 19: ["bulk", 240], 20: ["bulk", 450]
+    } as Record<number, [string, number]>
+};
+
+// One step per version bump, in order. Bumping the save version means adding a step here.
+const MIGRATIONS: Migration[] = [
+    {
+        from: 1,
+        description: "Fill in fields that older saves lack and convert the single Earth market and two-leg sell routes",
+        migrate: (payload: any) => {
+            const company = payload.company ?? {};
+            const colonies: any[] = company.colonies ?? [];
+
+            colonies.forEach(colony => {
+                colony.colonyModules = (colony.colonyModules ?? []).map((entry: any) => ({
+                    ...entry,
+                    // Modules without a type are production modules
+                    type: entry.type ?? (entry.infrastructureId !== undefined ? "infrastructure" : "production"),
+                    level: entry.level ?? 1
+                }));
+                colony.storage = { items: colony.storage?.items ?? [], level: colony.storage?.level ?? 1 };
+                colony.productionProgress = colony.productionProgress ?? {};
+                colony.population = colony.population ?? 10; // The population of a new colony when populations came in
+            });
+
+            payload.company = {
+                ...company,
+                colonies,
+                credits: company.credits ?? 0,
+                level: company.level ?? 1,
+                xp: company.xp ?? 0,
+                research: {
+                    completed: company.research?.completed ?? [],
+                    queue: company.research?.queue ?? [],
+                    progressSols: company.research?.progressSols ?? 0,
+                    started: company.research?.started ?? false
+                }
+            };
+
+            // Older saves stored a two-leg sell route from an origin colony to Earth
+            const earthColony = colonies.find(colony => colony.location?.type === "Earth");
+            payload.rockets = (payload.rockets ?? []).map((rocket: any) => {
+                const { sellRoute, sellRouteOriginId, sellRouteState, ...rest } = rocket;
+                let route = rest.route ?? null;
+                if (!route && sellRoute && sellRouteOriginId && earthColony) {
+                    route = {
+                        stops: [
+                            { colonyId: sellRouteOriginId, rules: [{ action: "load", goodId: null }] },
+                            { colonyId: earthColony.colonyId, rules: [{ action: "sell", goodId: null }] }
+                        ],
+                        // Rockets flying to Earth or selling there still have to sell; idle, loading and returning ones load first
+                        nextStop: sellRouteState === "to_earth" || sellRouteState === "selling" ? 1 : 0
+                    };
+                }
+                return {
+                    ...rest,
+                    initialTravelTime: rest.initialTravelTime ?? 0,
+                    destination: rest.destination ?? null,
+                    storage: { items: rest.storage?.items ?? [], level: rest.storage?.level ?? 1 },
+                    route,
+                    waypoints: rest.waypoints ?? []
+                };
+            });
+
+            // Older saves only stored the Earth market
+            const { market, ...session } = payload;
+            const seed = parseInt(checksum(`${payload.company.name ?? ""}:${session.currentSol ?? 1}`), 16);
+            return {
+                ...session,
+                markets: session.markets ?? (market ? [market] : []),
+                totalSolsPassed: session.totalSolsPassed ?? 0,
+                currentSol: session.currentSol ?? 1,
+                currentSolProgress: session.currentSolProgress ?? 0,
+                gameSpeed: session.gameSpeed ?? 1,
+                tutorialActive: session.tutorialActive ?? false,
+                tutorialStep: session.tutorialStep ?? 0,
+                tutorialCompleted: session.tutorialCompleted ?? false,
+                explorationMissions: session.explorationMissions ?? [],
+                // Older saves have no seed, they continue with one derived from the save so every migration of it plays the same
+                randomEvents: session.randomEvents ?? { seed, state: seed, active: [], history: [], nextId: 1 }
+            };
+        }
+    },
+    {
+        from: 2,
+        description: "Give every colony module a power priority",
+        migrate: (payload: any) => {
+            payload.company.colonies.forEach((colony: any) => {
+                colony.colonyModules = colony.colonyModules.map((entry: any) => ({ ...entry, powerPriority: entry.powerPriority ?? "normal" }));
+            });
+            return payload;
+        }
+    },
+    {
+        from: 3,
+        description: "Start every colony without storage reservations and with an empty loss report",
+        migrate: (payload: any) => {
+            payload.company.colonies.forEach((colony: any) => {
+                colony.storageReservations = colony.storageReservations ?? {};
+                colony.storageLosses = colony.storageLosses ?? [];
+            });
+            return payload;
+        }
+    },
+    {
+        from: 4,
+        description: "Let every colony discard its overflow, as before overflow policies",
+        migrate: (payload: any) => {
+            payload.company.colonies.forEach((colony: any) => {
+                colony.overflowPolicy = colony.overflowPolicy ?? "discard";
+            });
+            return payload;
+        }
+    },
+    {
+        from: 5,
+        description: "Start every rocket without packed modules",
+        migrate: (payload: any) => {
+            payload.rockets.forEach((rocket: any) => {
+                rocket.packedModules = rocket.packedModules ?? [];
+            });
+            return payload;
+        }
+    },
+    {
+        from: 6,
+        description: "Sell the goods colonies of older saves hold beyond the capacity of their storage classes, cheapest first, and log the sales in the loss reports",
+        migrate: (payload: any) => {
+            const rules = VERSION_6_STORAGE;
+            // Capacity of the infrastructure modules, from the base capacity of each module's type at level 1
+            const benefit = (infrastructure: any[], baseOf: (infrastructureId: number) => number) => infrastructure
+                .reduce((total, entry) => total + baseOf(entry.infrastructureId) * Math.pow(rules.curveFactor, (entry.level ?? 1) - 1), 0);
+
+            payload.company.colonies.forEach((colony: any) => {
+                const infrastructure = colony.colonyModules.filter((entry: any) => entry.type === "infrastructure");
+                const locationFactor = Math.pow(rules.locationModifiers[colony.location.type] ?? 1, 2);
+                const levelCapacity = Math.floor(rules.baseCapacity * Math.pow(rules.capacityGrowth, colony.storage.level + 1));
+                const sharedCapacity = levelCapacity + benefit(infrastructure, id => id === rules.storeroom ? rules.storeroomBase : 0);
+                const items: any[] = colony.storage.items;
+
+                Object.entries(rules.classShares).forEach(([storageClass, classShare]) => {
+                    const classItems = items
+                        .filter(item => rules.goods[item.good]?.[0] === storageClass)
+                        .sort((a, b) => rules.goods[a.good]![1] - rules.goods[b.good]![1]);
+                    const classStorage = benefit(infrastructure, id => rules.classStorage[id]?.[0] === storageClass ? rules.classStorage[id]![1] : 0);
+                    const share = locationFactor * Math.floor(sharedCapacity * classShare);
+                    const capacity = Math.floor(Math.max(rules.classMinimums[storageClass]!, share) + locationFactor * classStorage);
+                    let excess = classItems.reduce((total, item) => total + item.quantity, 0) - capacity;
+
+                    classItems.forEach(item => {
+                        if (excess <= 0) return;
+                        const sold = Math.min(item.quantity, excess);
+                        const earned = sold * rules.goods[item.good]![1];
+                        item.quantity -= sold;
+                        excess -= sold;
+                        payload.company.credits += earned;
+                        // The colony's loss report tells the player where the goods went
+                        colony.storageLosses.push({ sol: payload.currentSol, goodId: item.good, quantity: sold, earned });
+                    });
+                });
+                colony.storage.items = items.filter(item => item.quantity > 0);
+            });
+            return payload;
+        }
+    },
+    {
+        from: 7,
+        description: "Start every market without buying pressure",
+        migrate: (payload: any) => {
+            payload.markets.forEach((market: any) => {
+                market.entries = market.entries.map((entry: any) => ({ ...entry, demand: entry.demand ?? 0 }));
+            });
+            return payload;
+        }
+    }
+];
+
+export const SAVE_VERSION = MIGRATIONS.length + 1;
+
+/**
+ * Runs the migration steps from the given version up to the current save version.
+ * Throws if the save is newer than this game or a step fails.
+ */
+export function migrateSave(payload: any, version: number): any {
+    if (version > SAVE_VERSION) {
+        throw new Error(`The save was made with a newer version of the game (save version ${version}, this game reads up to ${SAVE_VERSION}).`);
+    }
+
+    let migrated = structuredClone(payload);
+    MIGRATIONS
+        .filter(migration => migration.from >= version)
+        .forEach(migration => {
+            try {
+                migrated = migration.migrate(migrated);
+            } catch (error) {
+                throw new Error(`Migrating the save from version ${migration.from} failed: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+    return migrated;
+}
@@ -0,0 +1,93 @@
+/**
+ * Save files for moving a game between browsers: a short header followed by the compressed game.
+ *
+ *   MARSINC:<save version>:<checksum>:<base64 of the gzipped JSON>
+ *
+ * The checksum covers the uncompressed JSON, so damaged or hand-edited files are caught before loading.
+ */
+
+const FILE_MAGIC = "MARSINC";
+
+export type SaveFileContents = {
+    version: number;
+    exportedAt: number;
+    name?: string;
+    payload: any;
+};
+
+export async function encodeSaveFile(contents: SaveFileContents): Promise<string> {
+    const json = JSON.stringify({ exportedAt: contents.exportedAt, name: contents.name, payload: contents.payload });
+    const data = await compress(json);
+    return `${FILE_MAGIC}:${contents.version}:${checksum(json)}:${data}`;
+}
+
+/**
+ * Reads a save file or pasted save string. Throws an error with a message for the player if it can't be read.
+ */
+export async function decodeSaveFile(text: string): Promise<SaveFileContents> {
+    const parts = text.trim().split(":");
+    if (parts.length !== 4 || parts[0] !== FILE_MAGIC) {
+        throw new Error("This is not a Mars Inc. save.");
+    }
+    const [, versionPart = "", expectedChecksum = "", data = ""] = parts;
+
+    const version = Number(versionPart);
+    if (!Number.isInteger(version) || version < 1) {
+        throw new Error(`The save has an invalid version: ${versionPart}`);
+    }
+
+    let json: string;
+    try {
+        json = await decompress(data);
+    } catch {
+        throw new Error("The save is damaged and can't be unpacked.");
+    }
+    if (checksum(json) !== expectedChecksum) {
+        throw new Error("The save is damaged: its checksum does not match.");
+    }
+
+    let contents: any;
+    try {
+        contents = JSON.parse(json);
+    } catch {
+        throw new Error("The save is damaged: its contents are not valid.");
+    }
+    if (typeof contents?.payload !== "object" || contents.payload === null) {
+        throw new Error("The save contains no game.");
+    }
+
+    return {
+        version,
+        exportedAt: Number(contents.exportedAt) || 0,
+        name: typeof contents.name === "string" ? contents.name : undefined,
+        payload: contents.payload
+    };
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex digits
+ */
+export function checksum(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+async function compress(text: string): Promise<string> {
+    const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("gzip"));
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+async function decompress(data: string): Promise<string> {
+    const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"));
+    return new Response(stream).text();
+}
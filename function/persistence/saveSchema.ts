@@ -0,0 +1,140 @@
+/**
+ * Shape of a save payload of the current save version. Migrated payloads are checked against it
+ * before they reach the model classes, whose fromData methods quietly default anything missing.
+ */
+type SchemaNode =
+    | "string" | "number" | "boolean" | "any"
+    | { type: "array"; items: SchemaNode }
+    | { type: "record"; values: SchemaNode }
+    | { type: "object"; fields: Record<string, SchemaNode> }
+    | { type: "nullable"; node: SchemaNode };
+
+const arrayOf = (items: SchemaNode): SchemaNode => ({ type: "array", items });
+const recordOf = (values: SchemaNode): SchemaNode => ({ type: "record", values });
+const object = (fields: Record<string, SchemaNode>): SchemaNode => ({ type: "object", fields });
+const nullable = (node: SchemaNode): SchemaNode => ({ type: "nullable", node });
+
+const LOCATION = object({ type: "string", name: "string", uuid: "string" });
+const STORAGE = object({ items: arrayOf(object({ good: "number", quantity: "number" })), level: "number" });
+const MODULE = object({ type: "string", level: "number", powerPriority: "string" });
+
+const SAVE_SCHEMA: SchemaNode = object({
+    sessionId: "string",
+    playerName: "string",
+    company: object({
+        id: "string",
+        name: "string",
+        credits: "number",
+        level: "number",
+        xp: "number",
+        colonies: arrayOf(object({
+            colonyId: "string",
+            name: "string",
+            location: LOCATION,
+            colonyModules: arrayOf(MODULE),
+            storage: STORAGE,
+            productionProgress: recordOf("number"),
+            storageReservations: recordOf("number"),
+            storageLosses: arrayOf(object({ sol: "number", goodId: "number", quantity: "number" })),
+            overflowPolicy: "string",
+            population: "number"
+        })),
+        research: object({
+            completed: arrayOf("string"),
+            queue: arrayOf("string"),
+            progressSols: "number",
+            started: "boolean"
+        })
+    }),
+    rockets: arrayOf(object({
+        id: "string",
+        name: "string",
+        estimatedTravelTime: "number",
+        initialTravelTime: "number",
+        location: LOCATION,
+        destination: nullable(LOCATION),
+        storage: STORAGE,
+        route: nullable(object({
+            stops: arrayOf(object({
+                colonyId: "string",
+                rules: arrayOf(object({ action: "string", goodId: nullable("number") }))
+            })),
+            nextStop: "number"
+        })),
+        waypoints: arrayOf("string"),
+        packedModules: arrayOf(object({ name: "string", mass: "number", module: MODULE }))
+    })),
+    markets: arrayOf(object({
+        locationType: "string",
+        entries: arrayOf(object({ goodId: "number", drift: "number", saturation: "number", demand: "number", history: arrayOf("number") }))
+    })),
+    totalSolsPassed: "number",
+    currentSol: "number",
+    currentSolProgress: "number",
+    gameSpeed: "number",
+    tutorialActive: "boolean",
+    tutorialStep: "number",
+    tutorialCompleted: "boolean",
+    explorationMissions: arrayOf(object({ rocketId: "string", targetType: "string" })),
+    randomEvents: object({
+        seed: "number",
+        state: "number",
+        active: arrayOf("any"),
+        history: arrayOf("any"),
+        nextId: "number"
+    })
+});
+
+const MAX_PROBLEMS = 10;
+
+/**
+ * Checks a payload against the save schema. Returns the problems found, empty if the payload is valid.
+ */
+export function validateSave(payload: any): string[] {
+    const problems: string[] = [];
+    check(payload, SAVE_SCHEMA, "save", problems);
+    return problems;
+}
+
+function check(value: any, node: SchemaNode, path: string, problems: string[]): void {
+    if (problems.length >= MAX_PROBLEMS) return;
+
+    if (typeof node === "string") {
+        if (node === "any") return;
+        const valid = node === "number" ? Number.isFinite(value) : typeof value === node;
+        if (!valid) problems.push(`${path}: expected ${node}, found ${describe(value)}`);
+        return;
+    }
+
+    switch (node.type) {
+        case "nullable":
+            if (value !== null) check(value, node.node, path, problems);
+            return;
+        case "array":
+            if (!Array.isArray(value)) {
+                problems.push(`${path}: expected a list, found ${describe(value)}`);
+                return;
+            }
+            value.forEach((item, index) => check(item, node.items, `${path}[${index}]`, problems));
+            return;
+        case "record":
+        case "object":
+            if (typeof value !== "object" || value === null || Array.isArray(value)) {
+                problems.push(`${path}: expected an object, found ${describe(value)}`);
+                return;
+            }
+            if (node.type === "record") {
+                Object.entries(value).forEach(([key, entry]) => check(entry, node.values, `${path}.${key}`, problems));
+            } else {
+                Object.entries(node.fields).forEach(([key, field]) => check(value[key], field, `${path}.${key}`, problems));
+            }
+            return;
+    }
+}
+
+function describe(value: any): string {
+    if (value === undefined) return "nothing";
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "a list";
+    return typeof value;
+}
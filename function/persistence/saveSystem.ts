@@ -1,38 +1,358 @@
 import type { GameSession } from "../models/sessionModel";
 import { GameSession as GameSessionClass } from "../models/sessionModel";
-import { getSave, putSave, deleteSave, SaveRecord } from "./indexedDb";
+import { GoodsRegistry } from "../models/goodsRegistry";
+import { getSave, putSave, deleteSave, listSaves, listSavesWithPrefix, type SaveRecord } from "./indexedDb";
+import { encodeSaveFile, decodeSaveFile, checksum } from "./saveFile";
+import { SAVE_VERSION, migrateSave } from "./migrations";
+import { validateSave } from "./saveSchema";
+import { CONFIG } from "../config";
 
-const SAVE_VERSION = 1;
+export { SAVE_VERSION };
 const DEFAULT_SLOT = "default";
+const ACTIVE_SLOT_KEY = "mars-inc.activeSlot";
+const EMERGENCY_SAVE_KEY = "mars-inc.emergencySave";
+
+/**
+ * What the save manager shows of a slot, read from the stored payload without loading it
+ */
+export type SaveSlotSummary = {
+    slot: string;
+    name: string;
+    companyName: string;
+    sol: number;
+    money: number;
+    savedAt: number;
+};
+
+/**
+ * A backup of a slot, with the reason it can't be restored if it is damaged as well
+ */
+export type SaveBackup = SaveSlotSummary & {
+    problem: string | null;
+};
+
+/**
+ * A checked save file, ready to be imported. The payload is migrated to the current version.
+ */
+export type SaveImport = {
+    name: string;
+    exportedAt: number;
+    version: number;
+    payload: any;
+    preview: {
+        companyName: string;
+        sol: number;
+        money: number;
+        level: number;
+        colonies: string[];
+        rockets: number;
+        technologies: number;
+    };
+};
 
 export class SaveSystem {
-    async save(session: GameSession, slot: string = DEFAULT_SLOT): Promise<void> {
+    /**
+     * Saves the game and, every few minutes, a copy of it into the slot's ring of backups.
+     * A game that doesn't match the save schema is not written, so a bug in toData can't replace a good save.
+     */
+    async save(session: GameSession, slot: string = DEFAULT_SLOT, name?: string): Promise<void> {
+        const record = this.createRecord(session, slot);
+        record.name = name ?? (await getSave(slot))?.name;
+        await putSave(record);
+        await this.rotateBackups(record);
+    }
+
+    /**
+     * Writes the game to localStorage right away. IndexedDB writes are asynchronous and may not finish
+     * while the page unloads; the next load picks this copy up if it is newer than the slot.
+     */
+    saveEmergency(session: GameSession, slot: string = DEFAULT_SLOT): void {
+        try {
+            localStorage.setItem(EMERGENCY_SAVE_KEY, JSON.stringify(this.createRecord(session, slot)));
+        } catch (error) {
+            console.error('Emergency save failed:', error);
+        }
+    }
+
+    /**
+     * Loads a slot. Throws if the save is damaged, see listBackups for recovering it.
+     */
+    async load(slot: string = DEFAULT_SLOT): Promise<GameSession | null> {
+        const record = await this.takeEmergencySave(slot) ?? await getSave(slot);
+        if (!record) return null;
+        if (record.version < SAVE_VERSION) {
+            await this.backupBeforeMigration(record);
+        }
+        return this.readRecord(record);
+    }
+
+    /**
+     * Backups of a slot, most recent first. Each one is test-loaded to find the ones that can be restored.
+     */
+    async listBackups(slot: string): Promise<SaveBackup[]> {
+        const records = (await listSaves()).filter(record => record.backupOf === slot);
+        return records
+            .sort((a, b) => b.savedAt - a.savedAt)
+            .map(record => {
+                let problem: string | null = null;
+                try {
+                    this.readRecord(record);
+                } catch (error) {
+                    problem = error instanceof Error ? error.message : String(error);
+                }
+                return { ...this.summarize(record), problem };
+            });
+    }
+
+    /**
+     * Puts a backup in place of the slot it was made of. The record it replaces is kept as a backup too.
+     * Returns the slot.
+     */
+    async restoreBackup(backupSlot: string): Promise<string | null> {
+        const backup = await getSave(backupSlot);
+        if (!backup?.backupOf) return null;
+
+        const { backupOf: slot, ...restored } = backup;
+        const current = await getSave(slot);
+        if (current) {
+            await putSave({ ...current, slot: `${slot}@damaged`, backupOf: slot });
+        }
+        await putSave({ ...restored, slot, name: current?.name ?? backup.name });
+        return slot;
+    }
+
+    /**
+     * Deletes a slot together with its backups
+     */
+    async clear(slot: string = DEFAULT_SLOT): Promise<void> {
+        const backups = (await listSaves()).filter(record => record.backupOf === slot);
+        await Promise.all(backups.map(backup => deleteSave(backup.slot)));
+        await deleteSave(slot);
+    }
+
+    /**
+     * All saves, most recently saved first. Backups are left out.
+     */
+    async listSlots(): Promise<SaveSlotSummary[]> {
+        const records = await listSaves();
+        return records
+            .filter(record => record.backupOf === undefined)
+            .map(record => this.summarize(record))
+            .sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    /**
+     * Copies a save into a new slot. Returns the new slot, or null if the source does not exist.
+     */
+    async duplicate(slot: string, name?: string): Promise<string | null> {
+        const record = await getSave(slot);
+        if (!record) return null;
+        const copy = this.createSlotId();
+        const summary = this.summarize(record);
+        await putSave({ ...record, slot: copy, name: name ?? `${summary.name} (copy)` });
+        return copy;
+    }
+
+    async rename(slot: string, name: string): Promise<boolean> {
+        const record = await getSave(slot);
+        if (!record) return false;
+        await putSave({ ...record, name });
+        return true;
+    }
+
+    /**
+     * The game as a save file string, to download or copy
+     */
+    async exportSave(session: GameSession, name?: string): Promise<string> {
+        return encodeSaveFile({ version: SAVE_VERSION, exportedAt: Date.now(), name, payload: session.toData() });
+    }
+
+    /**
+     * Unpacks, migrates and checks a save file without touching the stored saves.
+     * Throws an error with a message for the player if the file can't be loaded.
+     */
+    async readImport(text: string): Promise<SaveImport> {
+        const contents = await decodeSaveFile(text);
+        const payload = this.migrate({ slot: "import", payload: contents.payload, savedAt: contents.exportedAt, version: contents.version });
+        this.checkGoods(payload);
+
+        let session: GameSession;
+        try {
+            session = GameSessionClass.fromData(payload);
+        } catch (error) {
+            throw new Error(`The save can't be loaded: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const company = session.company;
+        return {
+            name: contents.name ?? company.name,
+            exportedAt: contents.exportedAt,
+            version: contents.version,
+            payload,
+            preview: {
+                companyName: company.name,
+                sol: session.currentSol,
+                money: company.getMoney(),
+                level: company.getLevel(),
+                colonies: company.colonies.map(colony => colony.name),
+                rockets: session.rockets.length,
+                technologies: company.research.getCompleted().length
+            }
+        };
+    }
+
+    /**
+     * Stores a checked save file in a new slot. Returns the slot.
+     */
+    async importSave(save: SaveImport): Promise<string> {
+        const slot = this.createSlotId();
+        await putSave({ slot, name: save.name, payload: save.payload, savedAt: Date.now(), version: SAVE_VERSION });
+        return slot;
+    }
+
+    createSlotId(): string {
+        return `slot-${Date.now().toString(36)}-${Math.floor(Math.random() * 1296).toString(36)}`;
+    }
+
+    /**
+     * The slot the game was last played in, remembered across reloads
+     */
+    getActiveSlot(): string {
+        try {
+            return localStorage.getItem(ACTIVE_SLOT_KEY) ?? DEFAULT_SLOT;
+        } catch {
+            return DEFAULT_SLOT;
+        }
+    }
+
+    setActiveSlot(slot: string): void {
+        try {
+            localStorage.setItem(ACTIVE_SLOT_KEY, slot);
+        } catch {
+            // Storage unavailable, the default slot is used on the next start
+        }
+    }
+
+    private summarize(record: SaveRecord): SaveSlotSummary {
+        const companyName = record.payload?.company?.name ?? 'Unknown company';
+        return {
+            slot: record.slot,
+            name: record.name ?? companyName,
+            companyName,
+            sol: record.payload?.currentSol ?? 1,
+            money: record.payload?.company?.credits ?? 0,
+            savedAt: record.savedAt
+        };
+    }
+
+    /**
+     * Stored goods must exist in this version of the game. Lists every unknown good with where it is stored.
+     */
+    private checkGoods(payload: any): void {
+        const unknown: string[] = [];
+        const check = (items: any[] | undefined, holder: string) => {
+            (items ?? [])
+                .filter(item => !GoodsRegistry.has(item?.good))
+                .forEach(item => unknown.push(`good ${item?.good} in ${holder}`));
+        };
+        (payload?.company?.colonies ?? []).forEach((colony: any) => check(colony?.storage?.items, colony?.name ?? 'a colony'));
+        (payload?.rockets ?? []).forEach((rocket: any) => check(rocket?.storage?.items, rocket?.name ?? 'a rocket'));
+
+        if (unknown.length > 0) {
+            throw new Error(`The save contains goods this version of the game doesn't know: ${unknown.join(', ')}.`);
+        }
+    }
+
+    private createRecord(session: GameSession, slot: string): SaveRecord {
         const payload = session.toData();
-        const record: SaveRecord = {
+        const problems = validateSave(payload);
+        if (problems.length > 0) {
+            throw new Error(`The game is in a state that can't be saved: ${problems.join('; ')}`);
+        }
+        return {
             slot,
             payload,
             savedAt: Date.now(),
-            version: SAVE_VERSION
+            version: SAVE_VERSION,
+            checksum: checksum(JSON.stringify(payload))
         };
-        await putSave(record);
     }
 
-    async load(slot: string = DEFAULT_SLOT): Promise<GameSession | null> {
-        const record = await getSave(slot);
-        if (!record) return null;
+    /**
+     * Checks, migrates and loads a record. Throws with the reason if it is damaged.
+     */
+    private readRecord(record: SaveRecord): GameSession {
+        if (record.checksum !== undefined && checksum(JSON.stringify(record.payload)) !== record.checksum) {
+            throw new Error("The save is damaged: its checksum does not match.");
+        }
         const payload = this.migrate(record);
-        return GameSessionClass.fromData(payload);
+        let session: GameSession;
+        try {
+            session = GameSessionClass.fromData(payload);
+        } catch (error) {
+            throw new Error(`The save can't be loaded: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        session.lastSavedAt = record.savedAt;
+        return session;
     }
 
-    async clear(slot: string = DEFAULT_SLOT): Promise<void> {
-        await deleteSave(slot);
+    /**
+     * Copies a save into the oldest place of the slot's ring of backups, unless the last backup is recent
+     */
+    private async rotateBackups(record: SaveRecord): Promise<void> {
+        const backups = (await listSavesWithPrefix(`${record.slot}#`)).filter(backup => backup.backupOf === record.slot);
+        const lastBackupAt = Math.max(0, ...backups.map(backup => backup.savedAt));
+        if (record.savedAt - lastBackupAt < CONFIG.saves.backupIntervalMs) return;
+
+        const ring = Array.from({ length: CONFIG.saves.backupCount }, (_, index) => `${record.slot}#${index + 1}`);
+        const target = ring.find(backupSlot => !backups.some(backup => backup.slot === backupSlot))
+            ?? backups.filter(backup => ring.includes(backup.slot)).sort((a, b) => a.savedAt - b.savedAt)[0]?.slot
+            ?? ring[0]!;
+        await putSave({ ...record, slot: target, backupOf: record.slot });
+    }
+
+    /**
+     * The emergency save of a slot, if it is newer than the stored record. It is stored in the slot and removed from localStorage.
+     */
+    private async takeEmergencySave(slot: string): Promise<SaveRecord | null> {
+        let emergency: SaveRecord | null = null;
+        try {
+            const stored = localStorage.getItem(EMERGENCY_SAVE_KEY);
+            emergency = stored ? JSON.parse(stored) : null;
+        } catch {
+            return null;
+        }
+        if (!emergency || emergency.slot !== slot) return null;
+
+        localStorage.removeItem(EMERGENCY_SAVE_KEY);
+        if (emergency.checksum !== checksum(JSON.stringify(emergency.payload))) return null;
+        const stored = await getSave(slot);
+        if (stored && stored.savedAt >= emergency.savedAt) return null;
+
+        const record = { ...emergency, name: stored?.name };
+        await putSave(record);
+        return record;
+    }
+
+    /**
+     * Keeps the record as it was before its first migration in a slot of its own, in case a migration step is wrong.
+     * An existing backup of the same version is not replaced.
+     */
+    private async backupBeforeMigration(record: SaveRecord): Promise<void> {
+        const backupSlot = `${record.slot}@v${record.version}`;
+        if (await getSave(backupSlot)) return;
+        await putSave({ ...record, slot: backupSlot, backupOf: record.slot });
     }
 
+    /**
+     * Brings the payload up to the current save version and checks it against the save schema
+     */
     private migrate(record: SaveRecord): any {
-        if (record.version === SAVE_VERSION) {
-            return record.payload;
+        const payload = migrateSave(record.payload, record.version);
+        const problems = validateSave(payload);
+        if (problems.length > 0) {
+            throw new Error(`The save is incomplete or damaged: ${problems.join('; ')}`);
         }
-        // Placeholder for future migrations
-        return record.payload;
+        return payload;
     }
 }
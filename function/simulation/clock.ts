@@ -0,0 +1,34 @@
+/**
+ * Time source for the simulation.
+ * The browser uses the system clock; tests and workers can drive time manually.
+ */
+export interface Clock {
+    now(): number;
+}
+
+export const systemClock: Clock = {
+    now: () => Date.now()
+};
+
+/**
+ * Clock that only moves when told to, for headless simulation runs.
+ */
+export class ManualClock implements Clock {
+    private time: number;
+
+    constructor(startTime: number = 0) {
+        this.time = startTime;
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    advance(ms: number): void {
+        this.time += ms;
+    }
+
+    set(time: number): void {
+        this.time = time;
+    }
+}
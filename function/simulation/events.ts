@@ -0,0 +1,44 @@
+import type { Colony, CompanyMilestone } from "../models/company";
+import type { Rocket } from "../models/storage";
+import type { SpaceLocation } from "../models/location";
+import type { Technology } from "../models/research";
+import type { ActiveRandomEvent } from "../models/randomEvents";
+
+/**
+ * Domain events emitted by the simulation. The payload types are keyed by event name.
+ */
+export type GameEvents = {
+    // Sold from a rocket's cargo or from a colony's storage
+    saleCompleted: { rocket: Rocket | null; colony: Colony | null; location: SpaceLocation; earned: number; sold: { goodId: number; quantity: number; earned: number }[] };
+    rocketArrived: { rocket: Rocket; location: SpaceLocation };
+    colonyFounded: { colony: Colony; rocket: Rocket };
+    storageOverflow: { colony: Colony; goodId: number; lost: number };
+    solPassed: { sol: number; production: { colony: Colony; goodId: number; quantity: number }[] };
+    routeIssue: { rocket: Rocket; reason: string; stopped: boolean };
+    travelIssue: { rocket: Rocket; reason: string };
+    researchCompleted: { technology: Technology };
+    companyLevelUp: { level: number; milestones: CompanyMilestone[] };
+    randomEventStarted: { event: ActiveRandomEvent };
+};
+
+export type GameEventType = keyof GameEvents;
+type GameEventHandler<K extends GameEventType> = (event: GameEvents[K]) => void;
+
+/**
+ * Minimal typed publish/subscribe bus. `on` returns a function that removes the handler.
+ */
+export class GameEventBus {
+    private handlers: Map<GameEventType, Set<GameEventHandler<any>>> = new Map();
+
+    on<K extends GameEventType>(type: K, handler: GameEventHandler<K>): () => void {
+        if (!this.handlers.has(type)) {
+            this.handlers.set(type, new Set());
+        }
+        this.handlers.get(type)!.add(handler);
+        return () => this.handlers.get(type)?.delete(handler);
+    }
+
+    emit<K extends GameEventType>(type: K, event: GameEvents[K]): void {
+        this.handlers.get(type)?.forEach(handler => handler(event));
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * Small seeded pseudo random number generator (mulberry32).
+ * The same seed always yields the same sequence, so a game can be replayed from its seed.
+ */
+export class SeededRandom {
+    readonly seed: number;
+    private state: number;
+
+    constructor(seed: number, state: number = seed) {
+        this.seed = seed >>> 0;
+        this.state = state >>> 0;
+    }
+
+    /**
+     * Next number in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Picks one of the items with a probability proportional to its weight
+     */
+    pickWeighted<T>(items: T[], weight: (item: T) => number): T | undefined {
+        const total = items.reduce((sum, item) => sum + weight(item), 0);
+        let roll = this.next() * total;
+        return items.find(item => (roll -= weight(item)) < 0) ?? items[items.length - 1];
+    }
+
+    pick<T>(items: T[]): T | undefined {
+        return items[Math.floor(this.next() * items.length)];
+    }
+
+    getState(): number {
+        return this.state;
+    }
+}